@@ -1,9 +1,42 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+jest.mock('./lib/backend', () => {
+  const { MockBackend } = jest.requireActual('./lib/mockBackend');
+  const backend = new MockBackend({ steps: 2, stepDelay: 1, latency: 0, sampleVideoUrl: '/mock/sample.mp4' });
+  return {
+    mockBackend: backend,
+    baseClient: backend.http,
+    socketFactory: backend.createSocket,
+    clientFor: () => backend.http,
+    probeSocketFactory: backend.createSocket,
+  };
+});
+
+// jsdom cannot decode images.
+jest.mock('./lib/images', () => ({
+  ...jest.requireActual('./lib/images'),
+  inspectImages: async (files: File[]) =>
+    files.map(() => ({ ok: true, width: 64, height: 64, thumbnail: 'data:image/png;base64,' })),
+  preprocessImage: async (file: File) => file,
+}));
+
+test('signs in, uploads an image and shows the generated video', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+
+  // fireEvent rather than userEvent: user-event drives its own copy of the
+  // DOM testing library, whose events React Testing Library cannot wrap in act().
+  fireEvent.change(screen.getByLabelText('Username'), { target: { value: 'ana' } });
+  fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'secret' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+  expect(await screen.findByText('via WebSocket')).toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText('Choose one or more images'), {
+    target: { files: [new File(['pixels'], 'beach.png', { type: 'image/png' })] },
+  });
+  fireEvent.click(await screen.findByRole('button', { name: /generate/i }));
+
+  expect(await screen.findByRole('button', { name: /compare/i }, { timeout: 3000 })).toBeInTheDocument();
+  expect(screen.getByText('5s · 720p · 30 fps · subtle')).toBeInTheDocument();
 });
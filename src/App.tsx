@@ -1,355 +1,868 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useCallback, useEffect, useReducer, useRef, useState } from 'react';
 import { Button } from './components/ui/button';
+import { Toaster } from './components/ui/toaster';
 import { useToast } from './components/ui/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card';
-import { Upload, Video, WifiOff } from 'lucide-react';
-import CustomVideoPlayer from './CustomVideoPlayer';
+import { FileArchive, LayoutGrid, List, LogOut, Server, Upload, Video, WifiOff } from 'lucide-react';
+import BackendSettingsDialog from './components/BackendSettingsDialog';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import DropZone from './components/DropZone';
+import GalleryView from './components/GalleryView';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import HistoryView from './components/HistoryView';
+import JobRow from './components/JobRow';
+import MetricsDashboard from './components/MetricsDashboard';
+import NotificationCenter from './components/NotificationCenter';
+import OutboxPanel from './components/OutboxPanel';
+import LoginDialog from './components/LoginDialog';
+import StagingArea from './components/StagingArea';
+import UploadOptions from './components/UploadOptions';
+import { useAuth } from './hooks/useAuth';
+import { useBackendHealth } from './hooks/useBackendHealth';
+import { useBackendProfiles } from './hooks/useBackendProfiles';
+import { useBatchIndicator } from './hooks/useBatchIndicator';
+import { useJobMetrics } from './hooks/useJobMetrics';
+import { useJobPersistence } from './hooks/useJobPersistence';
+import { useNotify } from './hooks/useNotifications';
+import { useOutbox } from './hooks/useOutbox';
+import { usePasteImages } from './hooks/usePasteImages';
+import { useSettings } from './hooks/useSettings';
+import { useTabCoordinator } from './hooks/useTabCoordinator';
+import { useVideoGenSocket } from './hooks/useVideoGenSocket';
+import { ConnectionState, StateDetail } from './lib/videoGenSocket';
+import { InboundMessage, OutboundMessage } from './lib/protocol';
+import { TabMessage, createActionFilter } from './lib/tabCoordinator';
+import { TRANSPORT_LABELS } from './lib/transport';
+import { isAbortError } from './lib/api';
+import { expireSession, getAccessToken, logout, refreshSession } from './lib/auth';
+import { getApiUrl } from './lib/backendProfiles';
+import { createLogger } from './lib/logger';
+import { announce } from './lib/desktopNotifications';
+import { downloadAllAsZip } from './lib/downloads';
+import { jobAverages } from './lib/metrics';
+import { OutboxCommand, OutboxEntry, discardCommand, enqueueCommand, flushOutbox } from './lib/outbox';
+import { runWithConcurrency, uploadFile } from './lib/upload';
+import { inspectImages, preprocessImage } from './lib/images';
+import { GenerationOverrides, resolveGenerationSettings } from './lib/generation';
+import {
+  BatchProgress,
+  Job,
+  JobAction,
+  batchProgress,
+  canCancel,
+  canRetry,
+  createJob,
+  createSequence,
+  initialJobsState,
+  isFinished,
+  jobAnchor,
+  jobLabel,
+  otherGenerations,
+  reducer,
+  splitSequence,
+} from './lib/jobs';
+import { SequenceFrame } from './lib/sequence';
+import { AUTH_ENABLED, DOWNLOAD_POLICY } from './config';
 import './index.css';
 
-const WEBSOCKET_URL = process.env.REACT_APP_WEBSOCKET_URL || "ws://localhost:8000/ws";
-const API_URL = process.env.REACT_APP_API_URL || "http://localhost:8000";
-
-const MAX_RECONNECT_ATTEMPTS = 5;
-const RECONNECT_DELAY = 5000; // 5 seconds
-
-interface VideoDetails {
-  id: number;
-  file: File;
-  progress: number;
-  videoUrl: string | null;
-  isProcessing: boolean;
-  status?: string;
-}
-
-interface WebSocketMessage {
-  type: string;
-  filename?: string;
-  value?: number;
-  video_url?: string;
-  message?: string;
-  status?: string;
-}
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  idle: 'Disconnected',
+  connecting: 'Connecting...',
+  handshaking: 'Connecting...',
+  established: 'Connected',
+  backoff: 'Reconnecting...',
+  failed: 'Disconnected',
+  rejected: 'Connection restricted',
+  closed: 'Disconnected',
+  unauthorized: 'Signed out',
+  offline: 'Offline',
+};
+
+const log = createLogger('app');
+
+const SOCKET_OPTIONS = AUTH_ENABLED ? { getToken: () => getAccessToken() } : {};
+
+// How long to wait before trying again when a token refresh never reached
+// the server.
+const REFRESH_RETRY_DELAY = 5000;
+
+// How long a new leader waits for the other tabs to claim running uploads.
+const UPLOAD_CLAIM_TIMEOUT = 1000;
 
 const App: React.FC = () => {
-  const [uploadQueue, setUploadQueue] = useState<VideoDetails[]>([]);
-  const [isConnected, setIsConnected] = useState(false);
-  const [shouldReconnect, setShouldReconnect] = useState(true);
-  const [isExplicitlyDisconnected, setIsExplicitlyDisconnected] = useState(false);
+  const [{ jobs }, applyAction] = useReducer(reducer, initialJobsState);
+  const tabMessageRef = useRef<(message: TabMessage) => void>(() => undefined);
+  const { isLeader, post } = useTabCoordinator(message => tabMessageRef.current(message));
+  // Changes to the job list are mirrored into every other open tab.
+  const [shouldShare] = useState(() => createActionFilter());
+  const dispatch = useCallback((action: JobAction) => {
+    applyAction(action);
+    if (shouldShare(action)) {
+      post({ kind: 'action', action });
+    }
+  }, [post, shouldShare]);
+  const [relayed, setRelayed] = useState<{ state: ConnectionState; detail: StateDetail | null }>({
+    state: 'connecting',
+    detail: null,
+  });
   const { toast } = useToast();
+  const notify = useNotify();
+  const [settings, updateSettings] = useSettings();
+  const { session, notice } = useAuth();
+  const signedIn = !AUTH_ENABLED || session !== null;
+  // Set once a refresh has been tried for the current connection, so a token
+  // the server keeps refusing ends in the login form rather than a loop.
+  const authRetriedRef = useRef(false);
+  const reconnectRef = useRef<() => void>(() => undefined);
+  const [view, setView] = useState<'queue' | 'history'>('queue');
+  const [zipProgress, setZipProgress] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const socketRef = useRef<WebSocket | null>(null);
-  const reconnectAttemptsRef = useRef(0);
-  const confirmationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const pingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  const processMessage = useCallback((data: WebSocketMessage) => {
-    if (data.filename) {
-      setUploadQueue(prevQueue =>
-        prevQueue.map(task => {
-          if (task.file.name === data.filename) {
-            if (data.type === 'progress') {
-              if (data.value === 100) {
-                return { ...task, progress: data.value, isProcessing: true, status: 'Generating video...' };
-              }
-              return { ...task, progress: data.value || 0, isProcessing: true };
-            } else if (data.type === 'complete') {
-              const url = `${API_URL}${data.video_url}`;
-              console.log("file url is : ", url);
-              toast({
-                title: 'Video generation complete!',
-                description: `Video for ${data.filename} is ready to view.`,
-              });
-              return { ...task, videoUrl: url, isProcessing: false, progress: 100, status: 'Complete' };
-            }
-          }
-          return task;
-        })
-      );
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const uploadControllersRef = useRef(new Map<string, AbortController>());
+  const claimedUploadsRef = useRef<string[]>([]);
+
+  // Brings a job from the notification center into view, switching to the
+  // tab it is listed under.
+  const handleSelectJob = useCallback((id: string) => {
+    const job = jobsRef.current.find(candidate => candidate.id === id);
+    if (!job) {
+      return;
     }
-  }, [toast]);
-
-  const handleDisconnect = useCallback((event?: CloseEvent) => {
-    console.log('Handling WebSocket disconnect', event);
-    setIsConnected(false);
-    
-    if (pingIntervalRef.current) {
-      clearInterval(pingIntervalRef.current);
+    setView(job.archived ? 'history' : 'queue');
+    requestAnimationFrame(() => {
+      document.getElementById(jobAnchor(id))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, []);
+
+  const notifyFailure = useCallback((serverJobId: string, reason: string) => {
+    const source = jobsRef.current.find(job => job.jobId === serverJobId);
+    notify({
+      group: 'jobs',
+      level: 'error',
+      title: 'Video generation failed',
+      description: source ? `${jobLabel(source)}: ${reason}` : reason,
+      jobId: source?.id,
+    });
+    announce('failed', 'Video generation failed', {
+      body: source ? `${jobLabel(source)}: ${reason}` : reason,
+      tag: `videogen-${serverJobId}`,
+      onClick: source ? () => handleSelectJob(source.id) : undefined,
+    });
+  }, [notify, handleSelectJob]);
+
+  const processMessage = useCallback((message: InboundMessage) => {
+    switch (message.type) {
+      case 'progress':
+        dispatch({ type: 'PROGRESS', jobId: message.job_id, value: message.value, at: Date.now() });
+        break;
+      case 'complete': {
+        const url = `${getApiUrl()}${message.video_url}`;
+        const source = jobsRef.current.find(job => job.jobId === message.job_id);
+        notify({
+          group: 'jobs',
+          level: 'success',
+          title: 'Video generation complete!',
+          description: `Video for ${source ? jobLabel(source) : message.filename} is ready to view.`,
+          jobId: source?.id,
+        });
+        announce('completed', 'Video ready', {
+          body: `${source ? jobLabel(source) : message.filename} is ready to view.`,
+          tag: `videogen-${message.job_id}`,
+          onClick: source ? () => handleSelectJob(source.id) : undefined,
+        });
+        dispatch({ type: 'COMPLETED', jobId: message.job_id, videoUrl: url, at: Date.now() });
+        break;
+      }
+      case 'failed':
+        notifyFailure(message.job_id, message.message);
+        dispatch({ type: 'FAILED', jobId: message.job_id, error: message.message, at: Date.now() });
+        break;
+      case 'error':
+        if (message.job_id) {
+          notifyFailure(message.job_id, message.message);
+          dispatch({ type: 'FAILED', jobId: message.job_id, error: message.message, at: Date.now() });
+        } else {
+          log.error('Received error from server', message.message);
+          notify({
+            group: 'connection',
+            level: 'error',
+            title: 'WebSocket Error',
+            description: message.message,
+          });
+        }
+        break;
+      case 'connection':
+      case 'pong':
+        break;
     }
-    
-    if (!isExplicitlyDisconnected && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
-      toast({
-        title: 'WebSocket Disconnected',
-        description: `Attempting to reconnect... (Attempt ${reconnectAttemptsRef.current + 1}/${MAX_RECONNECT_ATTEMPTS})`,
-        variant: 'destructive',
-      });
-  
-      reconnectAttemptsRef.current++;
-      setTimeout(() => {
-        setShouldReconnect(true);
-      }, RECONNECT_DELAY);
-    } else if (reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
-      toast({
-        title: 'Connection Failed',
-        description: 'Maximum reconnection attempts reached. Please refresh the page.',
-        variant: 'destructive',
+  }, [notify, notifyFailure, handleSelectJob, dispatch]);
+
+  const handleStateChange = useCallback((state: ConnectionState, detail: StateDetail) => {
+    switch (state) {
+      case 'established':
+        authRetriedRef.current = false;
+        notify({
+          group: 'connection',
+          level: 'info',
+          title: 'Connected',
+          description: detail.transport && detail.transport !== 'websocket'
+            ? `Ready to process images. WebSockets are unavailable, using ${TRANSPORT_LABELS[detail.transport]}.`
+            : 'Ready to process images.',
+        });
+        break;
+      case 'backoff':
+        notify({
+          group: 'connection',
+          level: 'error',
+          title: 'WebSocket Disconnected',
+          description: `Attempting to reconnect... (Attempt ${detail.attempt}/${detail.maxAttempts})`,
+        });
+        break;
+      case 'failed':
+        notify({
+          group: 'connection',
+          level: 'error',
+          title: 'Connection Failed',
+          description: 'Maximum reconnection attempts reached. Use Reconnect to try again.',
+        });
+        break;
+      case 'rejected':
+        notify({
+          group: 'connection',
+          level: 'error',
+          title: 'Connection Restricted',
+          description: detail.reason || 'Another client is currently connected. Please try again later.',
+        });
+        break;
+      case 'unauthorized':
+        if (authRetriedRef.current) {
+          expireSession();
+          break;
+        }
+        authRetriedRef.current = true;
+        refreshSession()
+          .then(refreshed => (refreshed ? reconnectRef.current() : expireSession()))
+          .catch(error => {
+            // Offline says nothing about the session; try the whole thing again.
+            log.warn('Could not refresh the session', error);
+            authRetriedRef.current = false;
+            setTimeout(() => reconnectRef.current(), REFRESH_RETRY_DELAY);
+          });
+        break;
+    }
+  }, [notify]);
+
+  const handleSocketError = useCallback((error: Event | Error) => {
+    log.error('Connection error', error);
+    notify({
+      group: 'connection',
+      level: 'error',
+      title: 'WebSocket Error',
+      description: 'An error occurred with the WebSocket connection.',
+    });
+  }, [notify]);
+
+  // The leader checks the backend before connecting to it, and again after
+  // every switch of profile.
+  const { active: backend } = useBackendProfiles();
+  const health = useBackendHealth(backend, signedIn && isLeader);
+  const [backendOpen, setBackendOpen] = useState(false);
+
+  useEffect(() => {
+    const failed = health.report && [health.report.upload, health.report.websocket].find(probe => !probe.reachable);
+    if (failed) {
+      notify({
+        group: 'connection',
+        level: 'error',
+        title: 'Server unreachable',
+        description: `${backend.name}: ${failed.detail}`,
       });
-      setIsExplicitlyDisconnected(true);
+    }
+  }, [health.report, backend.name, notify]);
+
+  // Only the leader tab opens the socket; it relays frames and state changes
+  // to the other tabs and sends commands on their behalf.
+  const socket = useVideoGenSocket(
+    signedIn && isLeader && !health.checking ? backend.websocketUrl : null,
+    {
+      onMessage: message => {
+        processMessage(message);
+        post({ kind: 'inbound', message });
+      },
+      onStateChange: (state, detail) => {
+        handleStateChange(state, detail);
+        post({ kind: 'state', state, detail });
+      },
+      onError: handleSocketError,
+    },
+    SOCKET_OPTIONS
+  );
+  reconnectRef.current = socket.reconnect;
+
+  const connectionState = isLeader ? socket.state : relayed.state;
+  const isConnected = connectionState === 'established';
+  const transport = (isLeader ? socket.detail : relayed.detail)?.transport;
+  const { send: sendOnSocket, reconnect: reconnectSocket } = socket;
+
+  const send = useCallback((message: OutboundMessage) => {
+    if (isLeader) {
+      return sendOnSocket(message);
+    }
+    if (!isConnected) {
+      return false;
+    }
+    post({ kind: 'send', message });
+    return true;
+  }, [isLeader, isConnected, sendOnSocket, post]);
+
+  const reconnect = useCallback(() => {
+    if (isLeader) {
+      reconnectSocket();
     } else {
-      toast({
-        title: 'Connection Restricted',
-        description: 'Another client is currently connected. Please try again later.',
-        variant: 'destructive',
-      });
+      post({ kind: 'reconnect' });
     }
-  }, [toast, isExplicitlyDisconnected]);
+  }, [isLeader, reconnectSocket, post]);
 
-  const connectWebSocket = useCallback(() => {
-    if (socketRef.current?.readyState === WebSocket.OPEN || !shouldReconnect || isExplicitlyDisconnected) {
-      return;
+  tabMessageRef.current = message => {
+    switch (message.kind) {
+      case 'inbound':
+        if (!isLeader) processMessage(message.message);
+        break;
+      case 'state':
+        if (!isLeader) setRelayed({ state: message.state, detail: message.detail });
+        break;
+      case 'send':
+        if (isLeader) sendOnSocket(message.message);
+        break;
+      case 'reconnect':
+        if (isLeader) reconnectSocket();
+        break;
+      case 'action':
+        // A cancel pressed in another tab still has to stop an upload
+        // running in this one.
+        if (message.action.type === 'CANCELLED') {
+          uploadControllersRef.current.get(message.action.id)?.abort();
+        }
+        applyAction(message.action);
+        break;
+      case 'uploads':
+        post({ kind: 'uploading', ids: Array.from(uploadControllersRef.current.keys()) });
+        break;
+      case 'uploading':
+        claimedUploadsRef.current = [...claimedUploadsRef.current, ...message.ids];
+        break;
+      case 'hello':
+        if (isLeader) {
+          post({ kind: 'snapshot', jobs: jobsRef.current, state: socket.state, detail: socket.detail });
+        }
+        break;
+      case 'snapshot':
+        if (!isLeader) {
+          applyAction({ type: 'SYNC', jobs: message.jobs });
+          setRelayed({ state: message.state, detail: message.detail });
+        }
+        break;
     }
-  
-    console.log('Attempting to connect WebSocket to URL:', WEBSOCKET_URL);
-    const newSocket = new WebSocket(WEBSOCKET_URL);
-  
-    newSocket.onopen = () => {
-      console.log('WebSocket connection opened');
-      // Send an initial message to the server
-      newSocket.send(JSON.stringify({ type: 'init' }));
-    };
-  
-    newSocket.onmessage = (event) => {
-      console.log('Raw WebSocket message:', event.data);
+  };
+
+  // Uploads exactly the jobs handed in, once, at most
+  // settings.uploadConcurrency at a time. Failures land in the failed state
+  // and are only re-sent when the user asks for a retry.
+  const uploadJobs = useCallback(async (pending: Job[]) => {
+    const queuedAt = Date.now();
+    pending
+      .filter(canRetry)
+      .forEach(job => dispatch({ type: 'RETRY', id: job.id, defaults: settings.generation, at: queuedAt }));
+    dispatch({ type: 'QUEUE', ids: pending.map(job => job.id), defaults: settings.generation, at: queuedAt });
+
+    let failures = 0;
+    await runWithConcurrency(pending, settings.uploadConcurrency, async job => {
+      // Queued jobs can be cancelled before a slot frees up.
+      if (jobsRef.current.find(candidate => candidate.id === job.id)?.status === 'cancelled') {
+        return;
+      }
+
+      const controller = new AbortController();
+      uploadControllersRef.current.set(job.id, controller);
+      dispatch({ type: 'UPLOAD_STARTED', ids: [job.id], at: Date.now() });
+
       try {
-        const data = JSON.parse(event.data);
-        console.log('Parsed WebSocket message:', data);
-        if (data.type === 'error') {
-          console.error('Received error from server:', data.message);
-          toast({
-            title: 'WebSocket Error',
-            description: data.message,
-            variant: 'destructive',
-          });
-        } else if (data.type === 'connection' && data.status === 'established') {
-          console.log('WebSocket connection fully established');
-          setIsConnected(true);
-          reconnectAttemptsRef.current = 0;
-          setShouldReconnect(false);
-          setIsExplicitlyDisconnected(false);
-          toast({
-            title: 'WebSocket Connected',
-            description: 'Ready to process images.',
-          });
-          socketRef.current = newSocket;
-  
-          // Send ping every 30 seconds
-          pingIntervalRef.current = setInterval(() => {
-            if (newSocket.readyState === WebSocket.OPEN) {
-              newSocket.send(JSON.stringify({ type: 'ping' }));
-            }
-          }, 30000);
+        // A sequence uploads every frame in order under this one row; the
+        // frames share a single progress bar.
+        const sources = job.frames
+          ? job.frames.map(frame => ({ clientId: frame.id, file: frame.file }))
+          : [{ clientId: job.id, file: job.file }];
+        const items = await Promise.all(
+          sources.map(async source => ({
+            clientId: source.clientId,
+            file: await preprocessImage(source.file, {
+              maxDimension: settings.downscaleImages ? settings.maxImageDimension : null,
+              fixOrientation: settings.fixOrientation,
+            }),
+          }))
+        );
+        const uploadTotal = items.reduce((total, item) => total + item.file.size, 0);
+        const uploads = [];
+        for (let index = 0; index < items.length; index++) {
+          const item = items[index];
+          const uploadedBefore = items.slice(0, index).reduce((total, previous) => total + previous.file.size, 0);
+          uploads.push(
+            await uploadFile(item, {
+              signal: controller.signal,
+              onProgress: ({ loaded }) =>
+                dispatch({ type: 'UPLOAD_PROGRESS', id: job.id, uploadedBytes: uploadedBefore + loaded, uploadTotal }),
+            })
+          );
+        }
+
+        // Start commands go through the outbox, which sends them as soon as
+        // the socket is (back) up, so an upload never waits on the connection.
+        // QUEUE and RETRY stored the same resolution in job.generation.
+        const generation = resolveGenerationSettings(settings.generation, job.overrides);
+        let command: OutboxCommand;
+        if (job.frames) {
+          const frames = job.frames;
+          dispatch({ type: 'UPLOAD_SUCCEEDED', uploads: [{ clientId: job.id, jobId: job.id }], at: Date.now() });
+          command = {
+            type: 'start_sequence',
+            jobId: job.id,
+            frames: uploads.map((upload, index) => ({
+              jobId: upload.jobId,
+              filename: upload.filename,
+              hold: frames[index].hold,
+              transition: frames[index].transition,
+            })),
+            settings: generation,
+          };
         } else {
-          processMessage(data);
+          const [upload] = uploads;
+          dispatch({ type: 'UPLOAD_SUCCEEDED', uploads: [upload], at: Date.now() });
+          command = {
+            type: 'start_processing',
+            jobId: upload.jobId,
+            filename: upload.filename,
+            settings: generation,
+          };
         }
+        enqueueCommand(command);
       } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
+        if (isAbortError(error)) {
+          return;
+        }
+        log.error(`Upload of ${jobLabel(job)} failed`, error);
+        failures++;
+        dispatch({ type: 'UPLOAD_FAILED', ids: [job.id], error: 'Upload failed', at: Date.now() });
+      } finally {
+        uploadControllersRef.current.delete(job.id);
       }
-    };
-  
-    newSocket.onerror = (error) => {
-      console.error('WebSocket error:', error);
+    });
+
+    if (failures > 0) {
+      notify({
+        group: 'jobs',
+        level: 'error',
+        title: 'Upload failed',
+        description: `${failures} of ${pending.length} images could not be uploaded. Use Retry to try again.`,
+      });
+    } else {
+      notify({
+        group: 'jobs',
+        level: 'info',
+        title: 'Upload successful',
+        description: 'Your images are being processed.',
+      });
+    }
+  }, [notify, settings, dispatch]);
+
+  // Single entry point for the file picker, drag-and-drop and paste.
+  // Files that fail validation are kept as rejected rows so the user can
+  // see why, but never reach the upload.
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) {
+      return;
+    }
+    const inspections = await inspectImages(files);
+    const newJobs = files.map((file, index) => {
+      const inspection = inspections[index];
+      return inspection.ok
+        ? createJob(file, { thumbnail: inspection.thumbnail, width: inspection.width, height: inspection.height })
+        : createJob(file, { status: 'rejected', error: inspection.reason });
+    });
+    dispatch({ type: 'ADD_FILES', jobs: newJobs });
+
+    const rejected = newJobs.filter(job => job.status === 'rejected').length;
+    if (rejected > 0) {
       toast({
-        title: 'WebSocket Error',
-        description: 'An error occurred with the WebSocket connection.',
+        title: `${rejected} file${rejected === 1 ? '' : 's'} rejected`,
+        description: 'See the staging area for the reasons.',
         variant: 'destructive',
       });
-    };
-  
-    newSocket.onclose = (event) => {
-      console.log('WebSocket closed:', event);
-      handleDisconnect(event);
-    };
-  
-    socketRef.current = newSocket;
-  }, [toast, processMessage, handleDisconnect, shouldReconnect, isExplicitlyDisconnected]);
-
-  useEffect(() => {
-    if (shouldReconnect && !isExplicitlyDisconnected) {
-      connectWebSocket();
     }
+    const accepted = newJobs.filter(job => job.status === 'staged');
+    if (settings.autoGenerate && accepted.length > 0) {
+      uploadJobs(accepted);
+    }
+  };
 
-    return () => {
-      if (confirmationTimeoutRef.current) {
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-        clearTimeout(confirmationTimeoutRef.current);
-      }
-      if (pingIntervalRef.current) {
-        clearInterval(pingIntervalRef.current);
-      }
-      if (socketRef.current) {
-        socketRef.current.close();
-      }
-    };
-  }, [connectWebSocket, shouldReconnect, isExplicitlyDisconnected]);
+  usePasteImages(addFiles);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
-      const files = Array.from(event.target.files);
-      setUploadQueue(prevQueue => [
-        ...prevQueue,
-        ...files.map((file, index) => ({
-          id: prevQueue.length + index + 1,
-          file,
-          progress: 0,
-          videoUrl: null,
-          isProcessing: false,
-        })),
-      ]);
+      addFiles(Array.from(event.target.files));
+      // Let the same file be picked again after it was removed.
+      event.target.value = '';
     }
   };
 
-  const uploadAllFiles = useCallback(async () => {
-    if (!isConnected) {
+  const stagedJobs = jobs.filter(job => job.status === 'staged' || job.status === 'rejected');
+  const queueJobs = jobs.filter(job => job.status !== 'staged' && job.status !== 'rejected' && !job.archived);
+
+  const finishedVideos = queueJobs.filter(job => job.videoUrl);
+
+  const handleDownloadAll = async () => {
+    setZipProgress(`0/${finishedVideos.length}`);
+    try {
+      await downloadAllAsZip(finishedVideos, (done, total) => setZipProgress(`${done}/${total}`));
+    } catch (error) {
+      log.error('ZIP download failed', error);
       toast({
-        title: 'Upload failed',
-        description: 'WebSocket is not connected. Please try again when connected.',
+        title: 'Download failed',
+        description: 'Not every video could be fetched, so no archive was created.',
         variant: 'destructive',
       });
-      return;
+    } finally {
+      setZipProgress(null);
     }
+  };
 
-    const formData = new FormData();
-    uploadQueue.forEach(task => {
-      if (!task.isProcessing) {
-        formData.append('files', task.file);
-      }
-    });
+  const handleGenerate = () => {
+    uploadJobs(stagedJobs.filter(job => job.status === 'staged'));
+  };
 
-    try {
-      const response = await fetch(`${API_URL}/upload`, {
-        method: 'POST',
-        body: formData,
-      });
+  const handleRetry = useCallback((job: Job) => {
+    uploadJobs([job]);
+  }, [uploadJobs]);
 
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
+  const handleRetryMany = useCallback((selected: Job[]) => {
+    uploadJobs(selected);
+  }, [uploadJobs]);
 
-      const data = await response.json();
-      setUploadQueue(prevQueue =>
-        prevQueue.map(task => ({
-          ...task,
-          isProcessing: true,
-        }))
-      );
-
-      data.files.forEach((filename: string) => {
-        if (socketRef.current?.readyState === WebSocket.OPEN) {
-          socketRef.current.send(JSON.stringify({
-            action: 'start_processing',
-            filename: filename
-          }));
-        } else {
-          console.error('WebSocket is not open. Unable to start processing.');
-          toast({
-            title: 'Processing delayed',
-            description: 'WebSocket is not connected. Processing will start when reconnected.',
-            variant: 'destructive',
-          });
+  const handleVideoMetadata = useCallback((job: Job, duration: number) => {
+    if (Number.isFinite(duration)) {
+      dispatch({ type: 'VIDEO_METADATA', id: job.id, duration });
+    }
+  }, [dispatch]);
+
+  const handleRemove = useCallback((job: Job) => {
+    dispatch({ type: 'REMOVE', id: job.id });
+  }, [dispatch]);
+
+  const handleMove = useCallback((job: Job, offset: -1 | 1) => {
+    dispatch({ type: 'MOVE', id: job.id, offset });
+  }, [dispatch]);
+
+  const handleOverride = useCallback((job: Job, overrides: GenerationOverrides | null) => {
+    dispatch({ type: 'SET_OVERRIDES', id: job.id, overrides });
+  }, [dispatch]);
+
+  const handleCombine = useCallback((members: Job[]) => {
+    dispatch({ type: 'CREATE_SEQUENCE', sequence: createSequence(members) });
+  }, [dispatch]);
+
+  const handleSplit = useCallback((job: Job) => {
+    dispatch({ type: 'SPLIT_SEQUENCE', id: job.id, jobs: splitSequence(job) });
+  }, [dispatch]);
+
+  const handleFramesChange = useCallback((job: Job, frames: SequenceFrame[]) => {
+    dispatch({ type: 'UPDATE_FRAMES', id: job.id, frames });
+  }, [dispatch]);
+
+  const handleCancel = useCallback((job: Job) => {
+    uploadControllersRef.current.get(job.id)?.abort();
+    if (job.status === 'generating' && job.jobId) {
+      enqueueCommand({ type: 'cancel_processing', jobId: job.jobId });
+    }
+    dispatch({ type: 'CANCELLED', id: job.id, at: Date.now() });
+  }, [dispatch]);
+
+  // Dropping a start command leaves nothing that would ever move its job on.
+  const handleDiscardCommand = useCallback((entry: OutboxEntry) => {
+    discardCommand(entry);
+    const job = jobsRef.current.find(candidate => candidate.jobId === entry.command.jobId);
+    if (job && entry.command.type !== 'cancel_processing' && canCancel(job)) {
+      dispatch({ type: 'CANCELLED', id: job.id, at: Date.now() });
+    }
+  }, [dispatch]);
+
+  // Only the leader holds the socket, so only it empties the shared outbox.
+  const outbox = useOutbox();
+  useEffect(() => {
+    if (isLeader && isConnected && outbox.length > 0) {
+      flushOutbox(async message => {
+        const sent = await sendOnSocket(message);
+        if (sent && (message.type === 'start_processing' || message.type === 'start_sequence')) {
+          dispatch({ type: 'GENERATION_STARTED', jobId: message.jobId, at: Date.now() });
         }
+        return sent;
       });
+    }
+  }, [isLeader, isConnected, outbox, sendOnSocket, dispatch]);
 
-      toast({
-        title: 'Upload successful',
-        description: 'Your images are being processed.',
-      });
-    } catch (error) {
-      console.error('Error:', error);
-      toast({
-        title: 'Upload failed',
-        description: 'There was an error uploading your images. Please try again.',
-        variant: 'destructive',
+  const hydrated = useJobPersistence(jobs, dispatch);
+
+  const batch = batchProgress(jobs);
+  useBatchIndicator(batch);
+  useJobMetrics(jobs, isLeader);
+  const averages = jobAverages(jobs);
+  const lastBatchRef = useRef<BatchProgress | null>(null);
+  useEffect(() => {
+    const previous = lastBatchRef.current;
+    lastBatchRef.current = batch;
+    // Single jobs already announce themselves.
+    if (previous && !batch && previous.total > 1) {
+      announce('batch', 'Batch finished', {
+        body: `All ${previous.total} jobs in the batch have finished.`,
+        tag: 'videogen-batch',
       });
     }
-  }, [uploadQueue, toast, isConnected]);
+  });
 
+  // Once this tab's own history is restored, ask the leader for the live
+  // queue, which may hold uploads the stored copy shows as interrupted.
   useEffect(() => {
-    if (uploadQueue.some(task => !task.isProcessing)) {
-      uploadAllFiles();
+    if (hydrated) {
+      post({ kind: 'hello' });
     }
-  }, [uploadQueue, uploadAllFiles]);
+  }, [hydrated, post]);
+
+  // A leader that closes mid-upload leaves its jobs uploading in every other
+  // tab. The tab taking over asks around and fails the ones nobody claims.
+  useEffect(() => {
+    if (!isLeader || !hydrated) {
+      return;
+    }
+    claimedUploadsRef.current = [];
+    post({ kind: 'uploads' });
+    const timer = setTimeout(() => {
+      const abandoned = jobsRef.current
+        .filter(
+          job =>
+            job.status === 'uploading' &&
+            !uploadControllersRef.current.has(job.id) &&
+            !claimedUploadsRef.current.includes(job.id)
+        )
+        .map(job => job.id);
+      if (abandoned.length > 0) {
+        dispatch({
+          type: 'UPLOAD_FAILED',
+          ids: abandoned,
+          error: 'Upload interrupted: the tab running it was closed',
+          at: Date.now(),
+        });
+      }
+    }, UPLOAD_CLAIM_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [isLeader, hydrated, post, dispatch]);
+
+  // After a reload or reconnect the server no longer knows this client cares
+  // about jobs that were already generating, so ask for their updates again.
+  useEffect(() => {
+    if (!isLeader || !isConnected || !hydrated) {
+      return;
+    }
+    const jobIds = jobsRef.current
+      .filter(job => job.status === 'generating' && job.jobId)
+      .map(job => job.jobId as string);
+    if (jobIds.length > 0) {
+      send({ type: 'subscribe', jobIds });
+    }
+  }, [isLeader, isConnected, hydrated, send]);
 
   return (
     <div className="min-h-screen bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
-      <Card className="max-w-3xl mx-auto bg-white shadow-lg rounded-lg overflow-hidden">
+      <Card
+        className={`${
+          view === 'queue' && settings.resultsLayout === 'gallery' ? 'max-w-6xl' : 'max-w-3xl'
+        } mx-auto bg-white shadow-lg rounded-lg overflow-hidden`}
+      >
         <CardHeader className="bg-blue-800 text-white p-6">
           <CardTitle className="text-2xl font-bold flex items-center justify-between">
             <div className="flex items-center">
               <Video className="mr-2 w-6 h-6" /> Simulated AI Video Generator
             </div>
-            {!isConnected && (
-              <div className="flex items-center text-red-300">
-                <WifiOff className="mr-2 w-5 h-5" /> Disconnected
+            <div className="ml-auto" />
+            {signedIn && <NotificationCenter onSelectJob={handleSelectJob} />}
+            <Button
+              onClick={() => setBackendOpen(true)}
+              size="sm"
+              variant="ghost"
+              className="mr-2 text-white"
+              aria-label="Backend settings"
+              title={`Backend: ${backend.name}`}
+            >
+              <Server className="w-5 h-5" />
+            </Button>
+            {AUTH_ENABLED && session && (
+              <div className="mr-4 flex items-center text-sm font-normal text-blue-100">
+                {session.username}
+                <Button onClick={logout} size="sm" variant="ghost" className="ml-2 text-white" aria-label="Sign out">
+                  <LogOut className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+            {isConnected && transport && (
+              <span className="text-sm font-normal text-blue-200" title="Connection to the server">
+                via {TRANSPORT_LABELS[transport]}
+              </span>
+            )}
+            {signedIn && !isConnected && (
+              <div className="flex items-center text-red-300 text-base font-medium">
+                <WifiOff className="mr-2 w-5 h-5" />
+                {isLeader && health.checking ? 'Checking server...' : CONNECTION_LABELS[connectionState]}
+                {(connectionState === 'failed' || connectionState === 'rejected') && (
+                  <Button
+                    onClick={reconnect}
+                    size="sm"
+                    variant="outline"
+                    className="ml-3 text-blue-800"
+                  >
+                    Reconnect
+                  </Button>
+                )}
               </div>
             )}
           </CardTitle>
         </CardHeader>
-        <CardContent className="p-6">
-          <div className="mb-6">
-            <label htmlFor="file-upload" className="block text-lg font-medium text-gray-700 mb-2">
-              Choose one or more images
-            </label>
-            <div className="mt-1 flex items-center">
-              <Button
-                onClick={() => fileInputRef.current?.click()}
-                className="flex items-center px-4 py-2 bg-blue-500 text-white border border-transparent rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                disabled={!isConnected || isExplicitlyDisconnected}
-              >
-                <Upload className="mr-2 w-5 h-5" /> Choose files and generate video
-              </Button>
-              <input
-                ref={fileInputRef}
-                id="file-upload"
-                name="file-upload"
-                type="file"
-                className="sr-only"
-                onChange={handleFileChange}
-                accept="image/*"
-                multiple
-                disabled={!isConnected || isExplicitlyDisconnected}
-              />
+        <DropZone onFiles={addFiles}>
+          <CardContent className="p-6">
+            <div className="flex mb-6 border-b border-gray-200">
+              {(['queue', 'history'] as const).map(tab => (
+                <button
+                  key={tab}
+                  className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium ${
+                    view === tab ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                  onClick={() => setView(tab)}
+                >
+                  {tab === 'queue' ? 'Queue' : `History (${jobs.filter(isFinished).length})`}
+                </button>
+              ))}
             </div>
-          </div>
-          {uploadQueue.length > 0 && (
-            <div className="mt-6 space-y-6">
-              {uploadQueue.map(task => {
-                const filename = task.videoUrl 
-                  ? task.videoUrl.split('/').pop()
-                  : task.file.name;
-                return (
-                  <div key={task.id} className="bg-white shadow-sm rounded-lg p-4">
-                    <h2 className="text-lg font-semibold mb-2">{filename}</h2>
-                    {!task.videoUrl && (
-                      <div>
-                        <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-gray-700">
-                          <div 
-                            className="bg-blue-600 h-2.5 rounded-full" 
-                            style={{ width: `${task.progress}%` }}
-                          >
-                          </div>
-                        </div>
-                        <p className="text-center mt-2 text-sm text-gray-600">
-                          {task.status || `${task.progress}% complete`}
-                        </p>
-                      </div>
-                    )}
-                    {task.videoUrl && <CustomVideoPlayer src={task.videoUrl} />}
+            {view === 'history' ? (
+              <HistoryView jobs={jobs} onDelete={handleRemove} />
+            ) : (
+              <>
+              <div className="mb-6">
+                <label htmlFor="file-upload" className="block text-lg font-medium text-gray-700 mb-2">
+                  Choose one or more images
+                </label>
+                <p className="text-sm text-gray-500 mb-2">
+                  You can also drop images or whole folders here, or paste an image with Ctrl/Cmd+V.
+                </p>
+                <div className="mt-1 flex items-center">
+                  <Button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center px-4 py-2 bg-blue-500 text-white border border-transparent rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <Upload className="mr-2 w-5 h-5" />
+                    {settings.autoGenerate ? 'Choose files and generate video' : 'Choose files'}
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    id="file-upload"
+                    name="file-upload"
+                    type="file"
+                    className="sr-only"
+                    onChange={handleFileChange}
+                    accept="image/*"
+                    multiple
+                  />
+                </div>
+                <UploadOptions />
+                <GenerationSettingsPanel />
+              </div>
+              <StagingArea
+                jobs={stagedJobs}
+                canGenerate={signedIn}
+                onGenerate={handleGenerate}
+                onRemove={handleRemove}
+                onMove={handleMove}
+                defaults={settings.generation}
+                onOverride={handleOverride}
+                onCombine={handleCombine}
+                onSplit={handleSplit}
+                onFramesChange={handleFramesChange}
+              />
+              <OutboxPanel entries={outbox} jobs={jobs} connected={isConnected} onDiscard={handleDiscardCommand} />
+              <MetricsDashboard jobs={jobs} batch={batch} averages={averages} />
+              {queueJobs.length > 0 && (
+                <div className="mt-6 flex items-center justify-end gap-2">
+                  <div className="mr-auto flex rounded-md border border-gray-200">
+                    <Button
+                      variant={settings.resultsLayout === 'list' ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => updateSettings({ resultsLayout: 'list' })}
+                    >
+                      <List className="mr-1 w-4 h-4" /> List
+                    </Button>
+                    <Button
+                      variant={settings.resultsLayout === 'gallery' ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => updateSettings({ resultsLayout: 'gallery' })}
+                    >
+                      <LayoutGrid className="mr-1 w-4 h-4" /> Gallery
+                    </Button>
                   </div>
-                );
-              })}
-            </div>      
-          )}
-        </CardContent>
+                  {DOWNLOAD_POLICY === 'enabled' && finishedVideos.length > 0 && (
+                    <Button variant="outline" onClick={handleDownloadAll} disabled={zipProgress !== null}>
+                      <FileArchive className="mr-2 w-4 h-4" />
+                      {zipProgress !== null ? `Preparing ZIP (${zipProgress})...` : 'Download all as ZIP'}
+                    </Button>
+                  )}
+                </div>
+              )}
+              {queueJobs.length > 0 && settings.resultsLayout === 'gallery' && (
+                <GalleryView
+                  jobs={queueJobs}
+                  onRetry={handleRetryMany}
+                  onRemove={handleRemove}
+                  onVideoMetadata={handleVideoMetadata}
+                />
+              )}
+              {queueJobs.length > 0 && settings.resultsLayout === 'list' && (
+                <div className="mt-6 space-y-6">
+                  {queueJobs.map(job => (
+                    <JobRow
+                      key={job.id}
+                      job={job}
+                      generations={otherGenerations(job, jobs)}
+                      onRetry={handleRetry}
+                      onCancel={handleCancel}
+                      onRemove={handleRemove}
+                      averages={averages}
+                    />
+                  ))}
+                </div>
+              )}
+              </>
+            )}
+          </CardContent>
+        </DropZone>
       </Card>
+      {!signedIn && !backendOpen && (
+        <LoginDialog notice={notice} backendName={backend.name} onChangeBackend={() => setBackendOpen(true)} />
+      )}
+      {backendOpen && (
+        <BackendSettingsDialog
+          activeReport={health.report}
+          activeChecking={health.checking}
+          onRecheck={health.recheck}
+          onClose={() => setBackendOpen(false)}
+        />
+      )}
+      <Toaster />
+      <DiagnosticsPanel />
     </div>
   );
 };
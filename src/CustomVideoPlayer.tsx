@@ -1,35 +1,426 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  CircleAlert,
+  Maximize,
+  Minimize,
+  Pause,
+  PictureInPicture2,
+  Play,
+  Repeat,
+  RotateCcw,
+  StepBack,
+  StepForward,
+  Volume2,
+  VolumeX,
+} from 'lucide-react';
+import { Button } from './components/ui/button';
+import { useFramePreview } from './hooks/useFramePreview';
+import { DOWNLOAD_POLICY } from './config';
+import {
+  DEFAULT_FRAME_RATE,
+  LoopRange,
+  PLAYBACK_RATES,
+  clampTime,
+  formatTimecode,
+  frameStep,
+  loopTarget,
+  nextPlaybackRate,
+  setLoopPoint,
+} from './lib/playback';
+import { createLogger } from './lib/logger';
+
+const log = createLogger('player');
 
 interface CustomVideoPlayerProps {
   src: string;
+  // Frame rate the video was generated at, used for frame stepping.
+  fps?: number;
+  // Lets a parent reach the <video>, e.g. to keep two players in sync.
+  videoRef?: React.MutableRefObject<HTMLVideoElement | null>;
+  // Drawn over the picture (not the controls), e.g. a comparison layer.
+  overlay?: React.ReactNode;
 }
 
-const CustomVideoPlayer: React.FC<CustomVideoPlayerProps> = ({ src }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+const SEEK_STEP = 5;
+
+const MEDIA_ERRORS: Record<number, string> = {
+  1: 'Loading the video was aborted.',
+  2: 'A network error stopped the video from loading.',
+  3: 'The video could not be decoded.',
+  4: 'The video is unavailable or in a format this browser cannot play.',
+};
+
+const controlButton = 'h-8 w-8 text-white hover:bg-white/20 hover:text-white';
+
+const CustomVideoPlayer: React.FC<CustomVideoPlayerProps> = ({
+  src,
+  fps = DEFAULT_FRAME_RATE,
+  videoRef: externalVideoRef,
+  overlay,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const scrubberRef = useRef<HTMLDivElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [muted, setMuted] = useState(false);
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [pictureInPicture, setPictureInPicture] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const { image: previewImage, showPreview, hidePreview } = useFramePreview(src);
+
+  const attachVideo = useCallback((video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    if (externalVideoRef) {
+      externalVideoRef.current = video;
+    }
+  }, [externalVideoRef]);
+
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+
+  useEffect(() => {
+    setError(null);
+    setLoop(null);
+    setCurrentTime(0);
+    setDuration(0);
+  }, [src]);
 
+  // timeupdate only fires a few times a second, which is too coarse for a
+  // smooth playhead and a tight A-B loop.
   useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    let frame = requestAnimationFrame(function tick() {
+      const video = videoRef.current;
+      if (video) {
+        const target = loopTarget(video.currentTime, loopRef.current);
+        if (target !== null) {
+          video.currentTime = target;
+        }
+        setCurrentTime(video.currentTime);
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const onFullscreenChange = () => setFullscreen(document.fullscreenElement === containerRef.current);
+    const onEnterPip = () => setPictureInPicture(true);
+    const onLeavePip = () => setPictureInPicture(false);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    video?.addEventListener('enterpictureinpicture', onEnterPip);
+    video?.addEventListener('leavepictureinpicture', onLeavePip);
+    return () => {
+      document.removeEventListener('fullscreenchange', onFullscreenChange);
+      video?.removeEventListener('enterpictureinpicture', onEnterPip);
+      video?.removeEventListener('leavepictureinpicture', onLeavePip);
+    };
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    video.currentTime = clampTime(time, video.duration);
+    setCurrentTime(video.currentTime);
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    if (video.paused) {
+      // Starting outside the loop would otherwise play through to its end first.
+      if (loop && (video.currentTime < loop.start || video.currentTime >= loop.end)) {
+        video.currentTime = loop.start;
+      }
+      video.play().catch(playError => log.error('Playback failed', playError));
+    } else {
+      video.pause();
+    }
+  }, [loop]);
+
+  const stepFrame = useCallback((direction: -1 | 1) => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    video.pause();
+    seek(frameStep(video.currentTime, fps, direction, video.duration));
+  }, [fps, seek]);
+
+  const changeRate = useCallback((next: number) => {
+    if (videoRef.current) {
+      videoRef.current.playbackRate = next;
+    }
+  }, []);
+
+  const markLoop = useCallback((point: 'start' | 'end') => {
     const video = videoRef.current;
     if (video) {
-      video.addEventListener('contextmenu', e => e.preventDefault());
-      video.addEventListener('error', (e) => {
-        console.error('Video error:', e);
-        alert('There was an error loading the video.');
+      setLoop(current => setLoopPoint(current, point, video.currentTime, video.duration));
+    }
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    if (videoRef.current) {
+      videoRef.current.muted = !videoRef.current.muted;
+    }
+  }, []);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen().catch(fullscreenError => {
+        log.error('Fullscreen failed', fullscreenError);
       });
     }
   }, []);
 
+  const togglePictureInPicture = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !document.pictureInPictureEnabled) {
+      return;
+    }
+    const request = document.pictureInPictureElement ? document.exitPictureInPicture() : video.requestPictureInPicture();
+    request.catch(pipError => log.error('Picture-in-picture failed', pipError));
+  }, []);
+
+  const retry = () => {
+    setError(null);
+    videoRef.current?.load();
+  };
+
+  const handleError = () => {
+    const code = videoRef.current?.error?.code;
+    const message = (code && MEDIA_ERRORS[code]) || 'There was an error loading the video.';
+    log.error(message, src);
+    setError(message);
+    setPlaying(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.target instanceof HTMLSelectElement || event.metaKey || event.ctrlKey || event.altKey) {
+      return;
+    }
+    // A focused button already handles Space itself.
+    if (event.target instanceof HTMLButtonElement && event.key === ' ') {
+      return;
+    }
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    const actions: Record<string, () => void> = {
+      ' ': togglePlay,
+      k: togglePlay,
+      ArrowLeft: () => seek(video.currentTime - SEEK_STEP),
+      ArrowRight: () => seek(video.currentTime + SEEK_STEP),
+      ',': () => stepFrame(-1),
+      '.': () => stepFrame(1),
+      '<': () => changeRate(nextPlaybackRate(video.playbackRate, -1)),
+      '>': () => changeRate(nextPlaybackRate(video.playbackRate, 1)),
+      '[': () => markLoop('start'),
+      ']': () => markLoop('end'),
+      '\\': () => setLoop(null),
+      Home: () => seek(0),
+      End: () => seek(video.duration),
+      m: toggleMute,
+      f: toggleFullscreen,
+      p: togglePictureInPicture,
+    };
+    const action = actions[event.key];
+    if (action) {
+      event.preventDefault();
+      action();
+    }
+  };
+
+  const timeAtPointer = (clientX: number) => {
+    const bounds = scrubberRef.current?.getBoundingClientRect();
+    if (!bounds || bounds.width === 0) {
+      return 0;
+    }
+    return clampTime(((clientX - bounds.left) / bounds.width) * duration, duration);
+  };
+
+  const percent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+
   return (
-    <video 
-      ref={videoRef}
-      src={src} 
-      controls 
-      className="w-full rounded-lg shadow-md"
-      controlsList="nodownload"
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onContextMenu={DOWNLOAD_POLICY === 'disabled' ? event => event.preventDefault() : undefined}
+      className="relative w-full overflow-hidden rounded-lg bg-black shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+      aria-label="Video player. Space plays or pauses, comma and period step frames, [ and ] set a loop."
     >
-      Your browser does not support the video tag.
-    </video>
+      <div className="relative">
+        <video
+          ref={attachVideo}
+          src={src}
+          playsInline
+          className="block w-full max-h-[80vh]"
+          onClick={togglePlay}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onLoadedMetadata={event => setDuration(event.currentTarget.duration)}
+          onTimeUpdate={event => setCurrentTime(event.currentTarget.currentTime)}
+          onRateChange={event => setRate(event.currentTarget.playbackRate)}
+          onVolumeChange={event => setMuted(event.currentTarget.muted)}
+          onError={handleError}
+        >
+          Your browser does not support the video tag.
+        </video>
+        {overlay}
+      </div>
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 p-4 text-center text-sm text-white">
+          <CircleAlert className="mb-2 w-6 h-6 text-red-400" />
+          <p className="mb-3">{error}</p>
+          <Button variant="secondary" size="sm" onClick={retry}>
+            <RotateCcw className="mr-1 w-4 h-4" /> Retry
+          </Button>
+        </div>
+      )}
+
+      <div className="bg-gray-900 px-3 pb-2 pt-3 text-white">
+        <div
+          ref={scrubberRef}
+          className="relative"
+          onMouseMove={event => {
+            const time = timeAtPointer(event.clientX);
+            setHoverTime(time);
+            showPreview(time);
+          }}
+          onMouseLeave={() => {
+            setHoverTime(null);
+            hidePreview();
+          }}
+        >
+          {loop && duration > 0 && (
+            <div
+              className="pointer-events-none absolute top-1/2 h-2 -translate-y-1/2 rounded bg-yellow-400/60"
+              style={{ left: `${percent(loop.start)}%`, width: `${percent(loop.end - loop.start)}%` }}
+            />
+          )}
+          <input
+            type="range"
+            aria-label="Seek"
+            className="relative w-full cursor-pointer accent-blue-500"
+            min={0}
+            max={duration || 0}
+            step="any"
+            value={currentTime}
+            disabled={!duration}
+            onChange={event => seek(Number(event.target.value))}
+          />
+          {hoverTime !== null && duration > 0 && (
+            <div
+              className="pointer-events-none absolute bottom-full mb-2 -translate-x-1/2 rounded bg-black/90 p-1 text-center text-xs"
+              style={{ left: `${percent(hoverTime)}%` }}
+            >
+              {previewImage && <img src={previewImage} alt="" className="mb-1 w-40 rounded" />}
+              {formatTimecode(hoverTime)}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+          <Button variant="ghost" size="icon" className={controlButton} title={playing ? 'Pause (Space)' : 'Play (Space)'} onClick={togglePlay}>
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" className={controlButton} title="Previous frame (,)" onClick={() => stepFrame(-1)}>
+            <StepBack className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className={controlButton} title="Next frame (.)" onClick={() => stepFrame(1)}>
+            <StepForward className="w-4 h-4" />
+          </Button>
+          <span className="mx-2 font-mono tabular-nums">
+            {formatTimecode(currentTime)} / {formatTimecode(duration)}
+          </span>
+
+          <div className="ml-auto flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2 text-white hover:bg-white/20 hover:text-white"
+              title="Set loop start ([)"
+              onClick={() => markLoop('start')}
+            >
+              A
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2 text-white hover:bg-white/20 hover:text-white"
+              title="Set loop end (])"
+              onClick={() => markLoop('end')}
+            >
+              B
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`${controlButton} ${loop ? 'text-yellow-400' : ''}`}
+              title={loop ? `Looping ${formatTimecode(loop.start)}–${formatTimecode(loop.end)}; click to clear (\\)` : 'No loop set'}
+              disabled={!loop}
+              onClick={() => setLoop(null)}
+            >
+              <Repeat className="w-4 h-4" />
+            </Button>
+            <select
+              aria-label="Playback speed"
+              title="Playback speed (< and >)"
+              className="h-8 rounded bg-gray-800 px-1 text-xs text-white"
+              value={rate}
+              onChange={event => changeRate(Number(event.target.value))}
+            >
+              {PLAYBACK_RATES.map(value => (
+                <option key={value} value={value}>{value}×</option>
+              ))}
+            </select>
+            <Button variant="ghost" size="icon" className={controlButton} title={muted ? 'Unmute (M)' : 'Mute (M)'} onClick={toggleMute}>
+              {muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            </Button>
+            {document.pictureInPictureEnabled && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className={`${controlButton} ${pictureInPicture ? 'text-blue-400' : ''}`}
+                title="Picture-in-picture (P)"
+                onClick={togglePictureInPicture}
+              >
+                <PictureInPicture2 className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className={controlButton}
+              title={fullscreen ? 'Exit fullscreen (F)' : 'Fullscreen (F)'}
+              onClick={toggleFullscreen}
+            >
+              {fullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
   );
 };
 
 export default CustomVideoPlayer;
-
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Loader2, Trash2, XCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { useBackendProfiles } from '../hooks/useBackendProfiles';
+import { expireSession } from '../lib/auth';
+import { clientFor, probeSocketFactory } from '../lib/backend';
+import {
+  BackendProfile,
+  BackendProfileInput,
+  removeProfile,
+  saveProfile,
+  selectProfile,
+  validateProfile,
+} from '../lib/backendProfiles';
+import { HealthReport, ProbeResult, checkBackend } from '../lib/healthCheck';
+import { AUTH_ENABLED } from '../config';
+
+interface BackendSettingsDialogProps {
+  // The check the app ran on the active profile before connecting.
+  activeReport: HealthReport | null;
+  activeChecking: boolean;
+  onRecheck: () => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM: BackendProfileInput = { name: '', apiUrl: '', websocketUrl: '' };
+
+const Probe: React.FC<{ label: string; result: ProbeResult }> = ({ label, result }) => (
+  <span className={`flex items-center ${result.reachable ? 'text-green-700' : 'text-red-600'}`}>
+    {result.reachable ? <CheckCircle2 className="mr-1 w-3 h-3" /> : <XCircle className="mr-1 w-3 h-3" />}
+    {label}: {result.reachable ? `${result.latency} ms` : result.detail}
+  </span>
+);
+
+const HealthSummary: React.FC<{ report: HealthReport | null; checking: boolean }> = ({ report, checking }) => {
+  if (checking) {
+    return (
+      <span className="flex items-center text-gray-500">
+        <Loader2 className="mr-1 w-3 h-3 animate-spin" /> Checking...
+      </span>
+    );
+  }
+  if (!report) {
+    return null;
+  }
+  return (
+    <span className="flex flex-wrap gap-x-3">
+      <Probe label="/upload" result={report.upload} />
+      <Probe label="/ws handshake" result={report.websocket} />
+    </span>
+  );
+};
+
+const BackendSettingsDialog: React.FC<BackendSettingsDialogProps> = ({
+  activeReport,
+  activeChecking,
+  onRecheck,
+  onClose,
+}) => {
+  const { profiles, active } = useBackendProfiles();
+  const [reports, setReports] = useState<Record<string, HealthReport | 'checking'>>({});
+  const [form, setForm] = useState<BackendProfileInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const test = async (profile: BackendProfile) => {
+    if (profile.id === active.id) {
+      onRecheck();
+      return;
+    }
+    setReports(current => ({ ...current, [profile.id]: 'checking' }));
+    const report = await checkBackend(profile.websocketUrl, {
+      client: clientFor(profile.apiUrl),
+      createSocket: probeSocketFactory,
+    });
+    setReports(current => ({ ...current, [profile.id]: report }));
+  };
+
+  // Tokens are issued by one server and mean nothing to another.
+  const handleSelect = (profile: BackendProfile) => {
+    if (profile.id === active.id) {
+      return;
+    }
+    selectProfile(profile.id);
+    if (AUTH_ENABLED) {
+      expireSession(`You switched to ${profile.name}. Sign in to continue.`);
+    }
+  };
+
+  const handleEdit = (profile: BackendProfile) => {
+    setEditingId(profile.id);
+    setForm({ name: profile.name, apiUrl: profile.apiUrl, websocketUrl: profile.websocketUrl });
+    setFormError(null);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const error = validateProfile(form);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    saveProfile(form, editingId || undefined);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div
+        role="dialog"
+        aria-label="Backend settings"
+        className="w-full max-w-lg space-y-4 rounded-lg bg-white p-6 text-sm text-gray-900 shadow-xl"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Backend</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <ul className="space-y-2">
+          {profiles.map(profile => {
+            const isActive = profile.id === active.id;
+            const report = isActive ? activeReport : reports[profile.id];
+            return (
+              <li key={profile.id} className="rounded border border-gray-200 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex min-w-0 items-center font-medium">
+                    <input
+                      type="radio"
+                      name="backend-profile"
+                      className="mr-2"
+                      checked={isActive}
+                      onChange={() => handleSelect(profile)}
+                    />
+                    <span className="truncate">{profile.name}</span>
+                    {profile.source === 'config' && <span className="ml-2 text-xs text-gray-400">config.json</span>}
+                  </label>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button variant="outline" size="sm" onClick={() => test(profile)}>
+                      Test
+                    </Button>
+                    {profile.source === 'user' && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(profile)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeProfile(profile.id)}
+                          aria-label={`Delete ${profile.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <p className="mt-1 truncate text-xs text-gray-500">
+                  {profile.apiUrl || 'Built-in mock'} · {profile.websocketUrl}
+                </p>
+                <div className="mt-1 text-xs">
+                  <HealthSummary
+                    report={report === 'checking' ? null : report || null}
+                    checking={isActive ? activeChecking : report === 'checking'}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <form className="space-y-2 border-t border-gray-200 pt-4" onSubmit={handleSubmit}>
+          <h3 className="font-medium">{editingId ? 'Edit profile' : 'Add a profile'}</h3>
+          <Input
+            placeholder="Name, e.g. Staging"
+            aria-label="Profile name"
+            value={form.name}
+            onChange={event => setForm({ ...form, name: event.target.value })}
+          />
+          <Input
+            placeholder="API URL, e.g. https://staging.example.com"
+            aria-label="API URL"
+            value={form.apiUrl}
+            onChange={event => setForm({ ...form, apiUrl: event.target.value })}
+          />
+          <Input
+            placeholder="WebSocket URL, e.g. wss://staging.example.com/ws"
+            aria-label="WebSocket URL"
+            value={form.websocketUrl}
+            onChange={event => setForm({ ...form, websocketUrl: event.target.value })}
+          />
+          {formError && <p className="text-red-600">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(EMPTY_FORM);
+                  setFormError(null);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm">
+              {editingId ? 'Save' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BackendSettingsDialog;
@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import CustomVideoPlayer from '../CustomVideoPlayer';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { useSyncedVideos } from '../hooks/useSyncedVideos';
+import { Job } from '../lib/jobs';
+import { describeGenerationSettings } from '../lib/generation';
+
+interface CompareViewProps {
+  job: Job;
+  // Other finished generations of the same image.
+  generations: Job[];
+}
+
+type Layout = 'side-by-side' | 'swipe';
+
+const SOURCE = 'source';
+
+const generationLabel = (job: Job) =>
+  `Generation from ${new Date(job.createdAt).toLocaleString()}` +
+  (job.generation ? ` (${describeGenerationSettings(job.generation)})` : '');
+
+const CompareView: React.FC<CompareViewProps> = ({ job, generations }) => {
+  const [againstId, setAgainstId] = useState(SOURCE);
+  const [layout, setLayout] = useState<Layout>('side-by-side');
+  const [split, setSplit] = useState(50);
+  const sourceUrl = useObjectUrl(job.file);
+  const mainVideoRef = useRef<HTMLVideoElement | null>(null);
+  const otherVideoRef = useRef<HTMLVideoElement | null>(null);
+
+  const other = generations.find(candidate => candidate.id === againstId) || null;
+  useSyncedVideos(mainVideoRef, otherVideoRef, other ? `${layout}:${other.id}` : null);
+
+  if (!job.videoUrl) {
+    return null;
+  }
+
+  const clip = { clipPath: `inset(0 ${100 - split}% 0 0)` };
+  const swipeLayer = other?.videoUrl ? (
+    <video
+      ref={otherVideoRef}
+      src={other.videoUrl}
+      muted
+      playsInline
+      className="pointer-events-none absolute inset-0 h-full w-full object-contain bg-black"
+      style={clip}
+    />
+  ) : (
+    sourceUrl && (
+      <img
+        src={sourceUrl}
+        alt="Source"
+        className="pointer-events-none absolute inset-0 h-full w-full object-contain bg-black"
+        style={clip}
+      />
+    )
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <label className="flex items-center min-w-0">
+          Compare with
+          <select
+            className="ml-2 max-w-xs truncate rounded border-gray-300 py-1 text-sm"
+            value={other ? other.id : SOURCE}
+            onChange={event => setAgainstId(event.target.value)}
+          >
+            <option value={SOURCE}>Source image</option>
+            {generations.map(generation => (
+              <option key={generation.id} value={generation.id}>{generationLabel(generation)}</option>
+            ))}
+          </select>
+        </label>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant={layout === 'side-by-side' ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setLayout('side-by-side')}
+          >
+            Side by side
+          </Button>
+          <Button variant={layout === 'swipe' ? 'secondary' : 'ghost'} size="sm" onClick={() => setLayout('swipe')}>
+            Swipe
+          </Button>
+        </div>
+      </div>
+
+      {layout === 'side-by-side' ? (
+        <div className="grid gap-3 md:grid-cols-2">
+          {other?.videoUrl ? (
+            <CustomVideoPlayer src={other.videoUrl} fps={other.generation?.fps} videoRef={otherVideoRef} />
+          ) : (
+            <div className="flex items-center justify-center rounded-lg bg-black">
+              {sourceUrl && <img src={sourceUrl} alt="Source" className="max-h-[80vh] w-full object-contain" />}
+            </div>
+          )}
+          <CustomVideoPlayer src={job.videoUrl} fps={job.generation?.fps} videoRef={mainVideoRef} />
+        </div>
+      ) : (
+        <div>
+          <CustomVideoPlayer
+            src={job.videoUrl}
+            fps={job.generation?.fps}
+            videoRef={mainVideoRef}
+            overlay={
+              <>
+                {swipeLayer}
+                <div
+                  className="pointer-events-none absolute inset-y-0 w-0.5 bg-white shadow"
+                  style={{ left: `${split}%` }}
+                />
+              </>
+            }
+          />
+          <label className="mt-2 flex items-center text-xs text-gray-500">
+            {other ? 'Other generation' : 'Source'}
+            <input
+              type="range"
+              aria-label="Split position"
+              className="mx-2 flex-1 accent-blue-500"
+              min={0}
+              max={100}
+              value={split}
+              onChange={event => setSplit(Number(event.target.value))}
+            />
+            This video
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useSettings } from '../hooks/useSettings';
+import {
+  DESKTOP_EVENT_LABELS,
+  DesktopEvent,
+  desktopPermission,
+  requestDesktopPermission,
+} from '../lib/desktopNotifications';
+
+const DesktopNotificationOptions: React.FC = () => {
+  const [settings, updateSettings] = useSettings();
+  const [permission, setPermission] = useState(desktopPermission);
+
+  if (permission === 'unsupported') {
+    return null;
+  }
+
+  // Permission is only asked for when the user turns the option on.
+  const handleToggle = async (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      const result = await requestDesktopPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        return;
+      }
+    }
+    updateSettings({ desktopNotifications: enabled });
+  };
+
+  const toggleEvent = (event: DesktopEvent, checked: boolean) =>
+    updateSettings({
+      desktopEvents: checked
+        ? [...settings.desktopEvents, event]
+        : settings.desktopEvents.filter(other => other !== event),
+    });
+
+  const enabled = settings.desktopNotifications && permission === 'granted';
+
+  return (
+    <div className="border-t border-gray-200 px-4 py-2 text-gray-700">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className="mr-2 rounded border-gray-300"
+          checked={enabled}
+          disabled={permission === 'denied'}
+          onChange={event => handleToggle(event.target.checked)}
+        />
+        Notify me while this tab is in the background
+      </label>
+      {permission === 'denied' && (
+        <p className="mt-1 text-xs text-gray-500">Notifications are blocked in your browser settings.</p>
+      )}
+      {enabled && (
+        <div className="mt-1 ml-6 space-y-1">
+          {(Object.keys(DESKTOP_EVENT_LABELS) as DesktopEvent[]).map(event => (
+            <label key={event} className="flex items-center">
+              <input
+                type="checkbox"
+                className="mr-2 rounded border-gray-300"
+                checked={settings.desktopEvents.includes(event)}
+                onChange={change => toggleEvent(event, change.target.checked)}
+              />
+              {DESKTOP_EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DesktopNotificationOptions;
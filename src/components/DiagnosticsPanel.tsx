@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, Download, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { useDiagnostics } from '../hooks/useDiagnostics';
+import { getActiveProfile } from '../lib/backendProfiles';
+import { DiagnosticEntry, clearDiagnostics, exportDiagnostics } from '../lib/diagnostics';
+import { saveBlob } from '../lib/downloads';
+
+const LEVEL_CLASSES: Record<DiagnosticEntry['level'], string> = {
+  debug: 'text-gray-400',
+  info: 'text-gray-200',
+  warn: 'text-amber-300',
+  error: 'text-red-400',
+};
+
+// Opened with Ctrl+Shift+D, or from the start with ?diagnostics in the URL.
+const isShortcut = (event: KeyboardEvent) =>
+  (event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 'd';
+
+const Entry: React.FC<{ entry: DiagnosticEntry }> = ({ entry }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasDetail = entry.detail !== undefined;
+  return (
+    <li className={LEVEL_CLASSES[entry.level]}>
+      <button
+        className="flex w-full items-start gap-2 text-left hover:bg-gray-800"
+        onClick={() => setExpanded(!expanded)}
+        disabled={!hasDetail}
+      >
+        <span className="shrink-0 text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+        <span className="w-20 shrink-0 text-gray-400">{entry.source}</span>
+        <span className="w-4 shrink-0">
+          {entry.direction === 'in' && <ArrowDownLeft className="w-3 h-3 text-green-400" aria-label="received" />}
+          {entry.direction === 'out' && <ArrowUpRight className="w-3 h-3 text-blue-400" aria-label="sent" />}
+        </span>
+        <span className="min-w-0 break-words">{entry.message}</span>
+      </button>
+      {expanded && hasDetail && (
+        <pre className="ml-28 whitespace-pre-wrap break-all text-gray-400">{JSON.stringify(entry.detail, null, 2)}</pre>
+      )}
+    </li>
+  );
+};
+
+const DiagnosticsPanel: React.FC = () => {
+  const entries = useDiagnostics();
+  const [open, setOpen] = useState(() => new URLSearchParams(window.location.search).has('diagnostics'));
+  const [source, setSource] = useState('all');
+  const [level, setLevel] = useState<'all' | 'problems'>('all');
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (isShortcut(event)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  if (!open) {
+    return null;
+  }
+
+  const sources = entries.reduce<string[]>(
+    (found, entry) => (found.includes(entry.source) ? found : [...found, entry.source]),
+    []
+  );
+  const visible = entries.filter(
+    entry =>
+      (source === 'all' || entry.source === source) &&
+      (level === 'all' || entry.level === 'warn' || entry.level === 'error')
+  );
+
+  const handleExport = () => {
+    const profile = getActiveProfile();
+    const json = exportDiagnostics({
+      backend: { name: profile.name, apiUrl: profile.apiUrl, websocketUrl: profile.websocketUrl },
+    });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    saveBlob(new Blob([json], { type: 'application/json' }), `videogen-diagnostics-${stamp}.json`);
+  };
+
+  return (
+    <section
+      aria-label="Diagnostics"
+      className="fixed inset-x-0 bottom-0 z-40 flex max-h-[50vh] flex-col bg-gray-900 font-mono text-xs text-gray-200 shadow-2xl"
+    >
+      <div className="flex flex-wrap items-center gap-2 border-b border-gray-700 px-3 py-2">
+        <span className="font-semibold">Diagnostics ({visible.length})</span>
+        <select
+          className="rounded bg-gray-800 px-1 py-0.5"
+          value={source}
+          onChange={event => setSource(event.target.value)}
+          aria-label="Source"
+        >
+          <option value="all">All sources</option>
+          {sources.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <select
+          className="rounded bg-gray-800 px-1 py-0.5"
+          value={level}
+          onChange={event => setLevel(event.target.value as 'all' | 'problems')}
+          aria-label="Level"
+        >
+          <option value="all">All levels</option>
+          <option value="problems">Warnings and errors</option>
+        </select>
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="text-gray-200" onClick={handleExport}>
+            <Download className="mr-1 w-3 h-3" /> Export JSON
+          </Button>
+          <Button variant="ghost" size="sm" className="text-gray-200" onClick={clearDiagnostics}>
+            Clear
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-gray-200"
+            onClick={() => setOpen(false)}
+            aria-label="Close diagnostics"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <ul className="flex-1 space-y-0.5 overflow-y-auto px-3 py-2">
+        {visible.length === 0 ? (
+          <li className="text-gray-500">Nothing recorded yet.</li>
+        ) : (
+          visible.map(entry => <Entry key={entry.id} entry={entry} />)
+        )}
+      </ul>
+    </section>
+  );
+};
+
+export default DiagnosticsPanel;
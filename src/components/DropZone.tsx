@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { imageFilesFromDataTransfer } from '../lib/fileImport';
+import { createLogger } from '../lib/logger';
+
+interface DropZoneProps {
+  onFiles: (files: File[]) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const log = createLogger('import');
+
+const hasFiles = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
+
+const DropZone: React.FC<DropZoneProps> = ({ onFiles, className, children }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element crossed, so a counter
+  // tells when the pointer has really left the zone.
+  const depthRef = useRef(0);
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    depthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    depthRef.current = Math.max(0, depthRef.current - 1);
+    if (depthRef.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    depthRef.current = 0;
+    setIsDragging(false);
+    try {
+      const files = await imageFilesFromDataTransfer(event.dataTransfer);
+      if (files.length > 0) {
+        onFiles(files);
+      }
+    } catch (error) {
+      // A folder the browser cannot read, or a file deleted mid-drop.
+      log.error('Reading dropped files failed', error);
+    }
+  };
+
+  return (
+    <div
+      className={cn('relative', className)}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-blue-500 bg-blue-50/90 text-blue-700 pointer-events-none">
+          <ImagePlus className="w-10 h-10 mb-2" />
+          <p className="text-lg font-medium">Drop images or folders to add them</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DropZone;
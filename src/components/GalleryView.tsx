@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Download, ImageOff, RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { useToast } from './ui/use-toast';
+import VideoActions from './VideoActions';
+import CustomVideoPlayer from '../CustomVideoPlayer';
+import { Job, canRemove, canRetry, jobAnchor, jobLabel } from '../lib/jobs';
+import { STATUS_FILTERS, SortDirection, SortKey, StatusFilter, matchesStatus, sortJobs } from '../lib/gallery';
+import { downloadAllAsZip, downloadVideo } from '../lib/downloads';
+import { describeGenerationSettings } from '../lib/generation';
+import { formatTimecode } from '../lib/playback';
+import { createLogger } from '../lib/logger';
+import { DOWNLOAD_POLICY } from '../config';
+
+const log = createLogger('downloads');
+
+interface GalleryViewProps {
+  jobs: Job[];
+  onRetry: (jobs: Job[]) => void;
+  onRemove: (job: Job) => void;
+  onVideoMetadata: (job: Job, duration: number) => void;
+}
+
+const STATUS_BADGES: Record<string, string> = {
+  queued: 'bg-gray-200 text-gray-700',
+  uploading: 'bg-sky-100 text-sky-800',
+  generating: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-200 text-gray-600',
+};
+
+interface GalleryTileProps {
+  job: Job;
+  selected: boolean;
+  onToggle: () => void;
+  onOpen: () => void;
+  onVideoMetadata: (job: Job, duration: number) => void;
+}
+
+const GalleryTile: React.FC<GalleryTileProps> = ({ job, selected, onToggle, onOpen, onVideoMetadata }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const startPreview = () => {
+    videoRef.current?.play().catch(() => undefined);
+  };
+
+  const stopPreview = () => {
+    const video = videoRef.current;
+    if (video) {
+      video.pause();
+      video.currentTime = 0;
+    }
+  };
+
+  return (
+    <li
+      id={jobAnchor(job.id)}
+      className={`group relative overflow-hidden rounded-lg border bg-white shadow-sm ${
+        selected ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200'
+      }`}
+    >
+      <button
+        className="relative block aspect-video w-full bg-gray-900"
+        onClick={onOpen}
+        onMouseEnter={startPreview}
+        onMouseLeave={stopPreview}
+        onFocus={startPreview}
+        onBlur={stopPreview}
+        aria-label={`Open ${jobLabel(job)}`}
+      >
+        {job.videoUrl ? (
+          <video
+            ref={videoRef}
+            src={job.videoUrl}
+            poster={job.thumbnail || undefined}
+            muted
+            loop
+            playsInline
+            preload="metadata"
+            className="h-full w-full object-cover"
+            onLoadedMetadata={event => onVideoMetadata(job, event.currentTarget.duration)}
+          />
+        ) : job.thumbnail ? (
+          <img src={job.thumbnail} alt="" className="h-full w-full object-cover opacity-70" />
+        ) : (
+          <ImageOff className="mx-auto w-6 h-6 text-gray-500" />
+        )}
+        {job.status === 'generating' && (
+          <div className="absolute inset-x-0 bottom-0 h-1 bg-gray-700">
+            <div className="h-1 bg-blue-500" style={{ width: `${job.progress}%` }} />
+          </div>
+        )}
+        {job.videoDuration !== null && (
+          <span className="absolute bottom-1 right-1 rounded bg-black/70 px-1 text-xs text-white">
+            {formatTimecode(job.videoDuration)}
+          </span>
+        )}
+      </button>
+      <input
+        type="checkbox"
+        className="absolute left-2 top-2 h-4 w-4 rounded border-gray-300"
+        aria-label={`Select ${jobLabel(job)}`}
+        checked={selected}
+        onChange={onToggle}
+      />
+      <div className="flex items-center justify-between gap-2 p-2">
+        <p className="truncate text-sm font-medium" title={jobLabel(job)}>{jobLabel(job)}</p>
+        <span className={`shrink-0 rounded px-1.5 py-0.5 text-xs ${STATUS_BADGES[job.status]}`}>
+          {job.status === 'generating' ? `${job.progress}%` : job.status}
+        </span>
+      </div>
+    </li>
+  );
+};
+
+const GalleryView: React.FC<GalleryViewProps> = ({ jobs, onRetry, onRemove, onVideoMetadata }) => {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [direction, setDirection] = useState<SortDirection>('desc');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const visible = useMemo(
+    () => sortJobs(jobs.filter(job => matchesStatus(job, filter)), sortKey, direction),
+    [jobs, filter, sortKey, direction]
+  );
+  // Selection only ever covers what is on screen, so a filter change cannot
+  // leave hidden jobs selected for a bulk delete.
+  const selected = visible.filter(job => selectedIds.includes(job.id));
+  const open = jobs.find(job => job.id === openId) || null;
+
+  useEffect(() => {
+    if (!openId) {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpenId(null);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [openId]);
+
+  const toggle = (job: Job) => {
+    setSelectedIds(ids => (ids.includes(job.id) ? ids.filter(id => id !== job.id) : [...ids, job.id]));
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selected.length === visible.length ? [] : visible.map(job => job.id));
+  };
+
+  const retryable = selected.filter(canRetry);
+  const removable = selected.filter(canRemove);
+  const downloadable = selected.filter(job => job.videoUrl);
+
+  const handleDelete = () => {
+    removable.forEach(onRemove);
+    setSelectedIds([]);
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      if (downloadable.length === 1) {
+        await downloadVideo(downloadable[0]);
+      } else {
+        await downloadAllAsZip(downloadable);
+      }
+    } catch (error) {
+      log.error('Download failed', error);
+      toast({ title: 'Download failed', description: 'Not every video could be fetched.', variant: 'destructive' });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+        <div className="flex rounded-md border border-gray-200">
+          {(Object.keys(STATUS_FILTERS) as StatusFilter[]).map(key => (
+            <button
+              key={key}
+              className={`px-3 py-1 ${filter === key ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+              onClick={() => setFilter(key)}
+            >
+              {STATUS_FILTERS[key]} ({jobs.filter(job => matchesStatus(job, key)).length})
+            </button>
+          ))}
+        </div>
+        <label className="ml-auto flex items-center text-gray-700">
+          Sort by
+          <select
+            className="ml-2 rounded border-gray-300 py-1 text-sm"
+            value={sortKey}
+            onChange={event => setSortKey(event.target.value as SortKey)}
+          >
+            <option value="date">Date</option>
+            <option value="name">Name</option>
+            <option value="duration">Duration</option>
+          </select>
+        </label>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={direction === 'asc' ? 'Ascending' : 'Descending'}
+          onClick={() => setDirection(direction === 'asc' ? 'desc' : 'asc')}
+        >
+          {direction === 'asc' ? <ArrowUpNarrowWide className="w-4 h-4" /> : <ArrowDownWideNarrow className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="mr-2 rounded border-gray-300"
+            checked={visible.length > 0 && selected.length === visible.length}
+            onChange={toggleAll}
+          />
+          {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+        </label>
+        {selected.length > 0 && (
+          <>
+            <Button variant="outline" size="sm" disabled={retryable.length === 0} onClick={() => onRetry(retryable)}>
+              <RotateCcw className="mr-1 w-4 h-4" /> Retry ({retryable.length})
+            </Button>
+            <Button variant="outline" size="sm" disabled={removable.length === 0} onClick={handleDelete}>
+              <Trash2 className="mr-1 w-4 h-4" /> Delete ({removable.length})
+            </Button>
+            {DOWNLOAD_POLICY === 'enabled' && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={downloadable.length === 0 || downloading}
+                onClick={handleDownload}
+              >
+                <Download className="mr-1 w-4 h-4" /> {downloading ? 'Downloading...' : `Download (${downloadable.length})`}
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">Nothing here yet.</p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+          {visible.map(job => (
+            <GalleryTile
+              key={job.id}
+              job={job}
+              selected={selectedIds.includes(job.id)}
+              onToggle={() => toggle(job)}
+              onOpen={() => setOpenId(job.id)}
+              onVideoMetadata={onVideoMetadata}
+            />
+          ))}
+        </ul>
+      )}
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
+          onClick={() => setOpenId(null)}
+        >
+          <div
+            role="dialog"
+            aria-label={jobLabel(open)}
+            className="w-full max-w-4xl rounded-lg bg-white p-4 shadow-xl"
+            onClick={event => event.stopPropagation()}
+          >
+            <div className="mb-2 flex items-center justify-between">
+              <h2 className="truncate text-lg font-semibold">{jobLabel(open)}</h2>
+              <Button variant="ghost" size="icon" aria-label="Close" onClick={() => setOpenId(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            {open.videoUrl ? (
+              <>
+                <CustomVideoPlayer src={open.videoUrl} fps={open.generation?.fps} />
+                {open.generation && (
+                  <p className="mt-2 text-xs text-gray-500">{describeGenerationSettings(open.generation)}</p>
+                )}
+                {DOWNLOAD_POLICY === 'enabled' && <VideoActions job={open} />}
+              </>
+            ) : (
+              <p className="py-8 text-center text-sm text-gray-500">
+                {open.status === 'failed' ? `Generation failed: ${open.error || 'Unknown error'}` : 'The video is not ready yet.'}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GalleryView;
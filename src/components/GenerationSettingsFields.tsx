@@ -0,0 +1,102 @@
+import React from 'react';
+import { Input } from './ui/input';
+import {
+  FRAME_RATES,
+  FrameRate,
+  GenerationSettings,
+  MAX_DURATION,
+  MIN_DURATION,
+  MOTION_STYLES,
+  MotionStyle,
+  RESOLUTIONS,
+  Resolution,
+} from '../lib/generation';
+
+interface GenerationSettingsFieldsProps {
+  value: GenerationSettings;
+  onChange: (update: Partial<GenerationSettings>) => void;
+}
+
+const clampDuration = (value: number) => Math.min(MAX_DURATION, Math.max(MIN_DURATION, Math.round(value)));
+
+const GenerationSettingsFields: React.FC<GenerationSettingsFieldsProps> = ({ value, onChange }) => (
+  <div className="grid gap-2 sm:grid-cols-2 text-sm text-gray-700">
+    <label className="flex items-center">
+      Duration
+      <input
+        type="number"
+        className="ml-2 w-20 rounded border-gray-300 py-1 text-sm"
+        min={MIN_DURATION}
+        max={MAX_DURATION}
+        value={value.duration}
+        onChange={event => {
+          const duration = Number(event.target.value);
+          if (Number.isFinite(duration) && event.target.value !== '') {
+            onChange({ duration: clampDuration(duration) });
+          }
+        }}
+      />
+      <span className="ml-1">s</span>
+    </label>
+    <label className="flex items-center">
+      Resolution
+      <select
+        className="ml-2 rounded border-gray-300 py-1 text-sm"
+        value={value.resolution}
+        onChange={event => onChange({ resolution: event.target.value as Resolution })}
+      >
+        {RESOLUTIONS.map(resolution => (
+          <option key={resolution} value={resolution}>{resolution}</option>
+        ))}
+      </select>
+    </label>
+    <label className="flex items-center">
+      Frame rate
+      <select
+        className="ml-2 rounded border-gray-300 py-1 text-sm"
+        value={value.fps}
+        onChange={event => onChange({ fps: Number(event.target.value) as FrameRate })}
+      >
+        {FRAME_RATES.map(fps => (
+          <option key={fps} value={fps}>{fps} fps</option>
+        ))}
+      </select>
+    </label>
+    <label className="flex items-center">
+      Motion
+      <select
+        className="ml-2 rounded border-gray-300 py-1 text-sm"
+        value={value.motion}
+        onChange={event => onChange({ motion: event.target.value as MotionStyle })}
+      >
+        {MOTION_STYLES.map(motion => (
+          <option key={motion} value={motion}>{motion}</option>
+        ))}
+      </select>
+    </label>
+    <label className="flex items-center">
+      Seed
+      <input
+        type="number"
+        className="ml-2 w-32 rounded border-gray-300 py-1 text-sm"
+        placeholder="Random"
+        value={value.seed ?? ''}
+        onChange={event => {
+          const seed = parseInt(event.target.value, 10);
+          onChange({ seed: Number.isNaN(seed) ? null : seed });
+        }}
+      />
+    </label>
+    <label className="flex items-center sm:col-span-2">
+      Prompt
+      <Input
+        className="ml-2 h-8"
+        placeholder="Optional, e.g. gentle waves rolling in"
+        value={value.prompt}
+        onChange={event => onChange({ prompt: event.target.value })}
+      />
+    </label>
+  </div>
+);
+
+export default GenerationSettingsFields;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import GenerationSettingsFields from './GenerationSettingsFields';
+import { useSettings } from '../hooks/useSettings';
+import { createPreset } from '../lib/generation';
+
+// Defaults applied to every queued image that has no per-file overrides.
+const GenerationSettingsPanel: React.FC = () => {
+  const [settings, updateSettings] = useSettings();
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const preset = settings.presets.find(candidate => candidate.id === id);
+    if (preset) {
+      updateSettings({ generation: preset.settings });
+    }
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      return;
+    }
+    // Saving under an existing name replaces that preset.
+    const preset = createPreset(name, settings.generation);
+    updateSettings({ presets: [...settings.presets.filter(candidate => candidate.name !== name), preset] });
+    setPresetId(preset.id);
+    setPresetName('');
+  };
+
+  const deletePreset = () => {
+    updateSettings({ presets: settings.presets.filter(preset => preset.id !== presetId) });
+    setPresetId('');
+  };
+
+  return (
+    <details className="mt-3 text-sm text-gray-700">
+      <summary className="cursor-pointer font-medium">Generation settings</summary>
+      <div className="mt-2 space-y-3">
+        <GenerationSettingsFields
+          value={settings.generation}
+          onChange={update => {
+            setPresetId('');
+            updateSettings({ generation: { ...settings.generation, ...update } });
+          }}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center">
+            Preset
+            <select
+              className="ml-2 rounded border-gray-300 py-1 text-sm"
+              value={presetId}
+              onChange={event => applyPreset(event.target.value)}
+            >
+              <option value="">Custom</option>
+              {settings.presets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+          </label>
+          {presetId && (
+            <Button variant="ghost" size="sm" onClick={deletePreset}>
+              <Trash2 className="mr-1 w-4 h-4" /> Delete preset
+            </Button>
+          )}
+          <Input
+            className="h-8 w-40"
+            placeholder="Preset name"
+            value={presetName}
+            onChange={event => setPresetName(event.target.value)}
+          />
+          <Button variant="outline" size="sm" onClick={savePreset} disabled={!presetName.trim()}>
+            <Save className="mr-1 w-4 h-4" /> Save preset
+          </Button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default GenerationSettingsPanel;
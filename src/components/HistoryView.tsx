@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import Thumbnail from './Thumbnail';
+import VideoActions from './VideoActions';
+import CustomVideoPlayer from '../CustomVideoPlayer';
+import { Job, isFinished, jobAnchor, jobLabel } from '../lib/jobs';
+import { describeGenerationSettings } from '../lib/generation';
+import { DOWNLOAD_POLICY } from '../config';
+
+interface HistoryViewProps {
+  jobs: Job[];
+  onDelete: (job: Job) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'text-green-700',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-500',
+};
+
+const fileNames = (job: Job) => (job.frames ? job.frames.map(frame => frame.file.name) : [job.file.name]);
+
+// <input type="date"> values are local calendar days.
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`).getTime();
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`).getTime();
+
+const HistoryView: React.FC<HistoryViewProps> = ({ jobs, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const entries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return jobs
+      .filter(isFinished)
+      .filter(job => !needle || fileNames(job).some(name => name.toLowerCase().includes(needle)))
+      .filter(job => !from || job.createdAt >= startOfDay(from))
+      .filter(job => !to || job.createdAt <= endOfDay(to))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }, [jobs, query, from, to]);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-3 w-4 h-4 text-gray-400" />
+          <Input
+            className="pl-9"
+            placeholder="Search by filename"
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+          />
+        </div>
+        <label className="text-sm text-gray-600">
+          From <Input type="date" className="inline-flex w-auto" value={from} onChange={event => setFrom(event.target.value)} />
+        </label>
+        <label className="text-sm text-gray-600">
+          To <Input type="date" className="inline-flex w-auto" value={to} onChange={event => setTo(event.target.value)} />
+        </label>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-8">No past generations match.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {entries.map(job => (
+            <li key={job.id} id={jobAnchor(job.id)} className="py-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <Thumbnail job={job} />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{jobLabel(job)}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(job.createdAt).toLocaleString()} ·{' '}
+                      <span className={STATUS_STYLES[job.status]}>{job.status}</span>
+                      {job.error ? ` · ${job.error}` : ''}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center shrink-0">
+                  {job.videoUrl && (
+                    <Button variant="outline" size="sm" onClick={() => setOpenId(openId === job.id ? null : job.id)}>
+                      {openId === job.id ? 'Hide' : 'Watch'}
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" aria-label={`Delete ${jobLabel(job)}`} onClick={() => onDelete(job)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              {openId === job.id && job.videoUrl && (
+                <div className="mt-3">
+                  <CustomVideoPlayer src={job.videoUrl} fps={job.generation?.fps} />
+                  {job.generation && (
+                    <p className="mt-2 text-xs text-gray-500">{describeGenerationSettings(job.generation)}</p>
+                  )}
+                  {DOWNLOAD_POLICY === 'enabled' && <VideoActions job={job} />}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
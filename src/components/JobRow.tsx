@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Columns2, RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import CompareView from './CompareView';
+import VideoActions from './VideoActions';
+import Thumbnail from './Thumbnail';
+import CustomVideoPlayer from '../CustomVideoPlayer';
+import { useNow } from '../hooks/useNow';
+import { Job, canCancel, canRemove, canRetry, isActive, jobAnchor, jobLabel } from '../lib/jobs';
+import { formatBytes, formatDuration } from '../lib/format';
+import { JobAverages, estimateRemaining } from '../lib/metrics';
+import { describeGenerationSettings } from '../lib/generation';
+import { DOWNLOAD_POLICY } from '../config';
+
+interface JobRowProps {
+  job: Job;
+  // Other finished generations of the same image, offered in compare mode.
+  generations: Job[];
+  onRetry: (job: Job) => void;
+  onCancel: (job: Job) => void;
+  onRemove: (job: Job) => void;
+  // What the time-left estimate goes on before the job reports progress.
+  averages: JobAverages;
+}
+
+// Counts down on its own clock, so only this text re-renders every second.
+const TimeLeft: React.FC<{ job: Job; averages: JobAverages }> = ({ job, averages }) => {
+  const now = useNow(job.status === 'queued' || isActive(job));
+  const remaining = estimateRemaining(job, averages, now);
+  return remaining !== null ? <>{` · about ${formatDuration(remaining)} left`}</> : null;
+};
+
+const statusText = (job: Job) => {
+  switch (job.status) {
+    case 'rejected':
+      return `Rejected: ${job.error}`;
+    case 'staged':
+      return 'Staged';
+    case 'queued':
+      return 'Queued';
+    case 'uploading':
+      return 'Uploading...';
+    case 'generating':
+      return job.progress === 100 ? 'Generating video...' : `${job.progress}% complete`;
+    case 'completed':
+      return 'Complete';
+    case 'failed':
+      return `Generation failed: ${job.error || 'Unknown error'}`;
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+interface ProgressBarProps {
+  label: string;
+  percent: number;
+  className: string;
+  detail?: string;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ label, percent, className, detail }) => (
+  <div>
+    <div className="flex justify-between text-xs text-gray-500 mb-1">
+      <span>{label}</span>
+      <span>{detail ? `${detail} · ` : ''}{percent}%</span>
+    </div>
+    <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-gray-700">
+      <div className={`${className} h-2.5 rounded-full`} style={{ width: `${percent}%` }}>
+      </div>
+    </div>
+  </div>
+);
+
+const JobRow: React.FC<JobRowProps> = ({ job, generations, onRetry, onCancel, onRemove, averages }) => {
+  const [comparing, setComparing] = useState(false);
+  const failed = job.status === 'failed';
+  const uploadPercent = job.uploadTotal > 0 ? Math.round((job.uploadedBytes / job.uploadTotal) * 100) : 0;
+
+  return (
+    <div id={jobAnchor(job.id)} className="bg-white shadow-sm rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center min-w-0">
+          <Thumbnail job={job} />
+          <h2 className="text-lg font-semibold truncate">{jobLabel(job)}</h2>
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          {job.videoUrl && (
+            <Button variant={comparing ? 'secondary' : 'outline'} size="sm" onClick={() => setComparing(!comparing)}>
+              <Columns2 className="mr-1 w-4 h-4" /> Compare
+            </Button>
+          )}
+          {canRetry(job) && (
+            <Button variant="outline" size="sm" onClick={() => onRetry(job)}>
+              <RotateCcw className="mr-1 w-4 h-4" /> Retry
+            </Button>
+          )}
+          {canCancel(job) && (
+            <Button variant="ghost" size="sm" onClick={() => onCancel(job)}>
+              <X className="mr-1 w-4 h-4" /> Cancel
+            </Button>
+          )}
+          {canRemove(job) && (
+            <Button variant="ghost" size="icon" aria-label={`Remove ${jobLabel(job)}`} onClick={() => onRemove(job)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {job.videoUrl ? (
+        <div>
+          {comparing ? (
+            <CompareView job={job} generations={generations} />
+          ) : (
+            <CustomVideoPlayer src={job.videoUrl} fps={job.generation?.fps} />
+          )}
+          {job.generation && (
+            <p className="mt-2 text-xs text-gray-500">{describeGenerationSettings(job.generation)}</p>
+          )}
+          {DOWNLOAD_POLICY === 'enabled' && <VideoActions job={job} />}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <ProgressBar
+            label="Upload"
+            percent={uploadPercent}
+            detail={`${formatBytes(job.uploadedBytes)} / ${formatBytes(job.uploadTotal)}`}
+            className={failed && !job.jobId ? 'bg-red-500' : 'bg-sky-500'}
+          />
+          <ProgressBar
+            label="Generation"
+            percent={job.progress}
+            className={failed && job.jobId ? 'bg-red-500' : 'bg-blue-600'}
+          />
+          <p className={`text-center text-sm ${failed ? 'text-red-600' : 'text-gray-600'}`}>
+            {statusText(job)}
+            <TimeLeft job={job} averages={averages} />
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobRow;
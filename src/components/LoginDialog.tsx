@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { LogIn } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { HttpError } from '../lib/api';
+import { login } from '../lib/auth';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('auth');
+
+interface LoginDialogProps {
+  notice: string | null;
+  backendName: string;
+  onChangeBackend: () => void;
+}
+
+const loginError = (error: unknown) => {
+  if (error instanceof HttpError) {
+    if (error.status === 401 || error.status === 403) {
+      return 'Incorrect username or password.';
+    }
+    if (error.status === 0) {
+      return 'Could not reach the server.';
+    }
+  }
+  return 'Sign in failed. Please try again.';
+};
+
+// Shown over the app rather than instead of it, so staged and queued jobs
+// survive an expired session.
+const LoginDialog: React.FC<LoginDialogProps> = ({ notice, backendName, onChangeBackend }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await login(username.trim(), password);
+    } catch (err) {
+      log.error('Sign in failed', err);
+      setError(loginError(err));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <form
+        role="dialog"
+        aria-label="Sign in"
+        className="w-full max-w-sm space-y-4 rounded-lg bg-white p-6 shadow-xl"
+        onSubmit={handleSubmit}
+      >
+        <h2 className="text-xl font-semibold">Sign in</h2>
+        {notice && <p className="rounded bg-amber-50 p-2 text-sm text-amber-800">{notice}</p>}
+        <p className="text-sm text-gray-500">
+          Server: {backendName}{' '}
+          <button type="button" className="text-blue-600 hover:underline" onClick={onChangeBackend}>
+            Change
+          </button>
+        </p>
+        <label className="block text-sm font-medium text-gray-700">
+          Username
+          <Input
+            className="mt-1"
+            autoComplete="username"
+            autoFocus
+            value={username}
+            onChange={event => setUsername(event.target.value)}
+            required
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Password
+          <Input
+            className="mt-1"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+            required
+          />
+        </label>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button type="submit" className="w-full" disabled={submitting}>
+          <LogIn className="mr-2 w-4 h-4" /> {submitting ? 'Signing in...' : 'Sign in'}
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginDialog;
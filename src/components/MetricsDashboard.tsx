@@ -0,0 +1,61 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { useNow } from '../hooks/useNow';
+import { BatchProgress, Job } from '../lib/jobs';
+import { JobAverages, SESSION_STARTED, batchRemaining, sessionStats } from '../lib/metrics';
+import { formatDuration } from '../lib/format';
+
+interface MetricsDashboardProps {
+  jobs: Job[];
+  batch: BatchProgress | null;
+  averages: JobAverages;
+}
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <dt className="text-xs text-gray-500">{label}</dt>
+    <dd className="text-sm font-semibold text-gray-800">{value}</dd>
+  </div>
+);
+
+const MetricsDashboard: React.FC<MetricsDashboardProps> = ({ jobs, batch, averages }) => {
+  // Ticks here rather than in App, so a running batch only re-renders this.
+  const now = useNow(batch !== null);
+  const stats = sessionStats(jobs, SESSION_STARTED, now);
+  if (!batch && stats.completed + stats.failed === 0) {
+    return null;
+  }
+  const remaining = batch ? batchRemaining(jobs, averages, now) : null;
+
+  return (
+    <section className="mt-6 rounded-lg border border-gray-200 p-4" aria-label="Session metrics">
+      <h3 className="mb-2 flex items-center text-sm font-medium text-gray-700">
+        <Gauge className="mr-2 w-4 h-4" /> This session
+      </h3>
+      <dl className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat
+          label="Batch"
+          value={
+            batch
+              ? `${batch.done}/${batch.total}${remaining !== null ? ` · about ${formatDuration(remaining)} left` : ''}`
+              : 'Idle'
+          }
+        />
+        <Stat
+          label="Avg. generation time"
+          value={stats.averageGeneration !== null ? formatDuration(stats.averageGeneration) : '–'}
+        />
+        <Stat
+          label="Throughput"
+          value={stats.throughput !== null ? `${stats.throughput.toFixed(1)} videos/min` : '–'}
+        />
+        <Stat
+          label="Failure rate"
+          value={stats.failureRate !== null ? `${Math.round(stats.failureRate * 100)}% of ${stats.completed + stats.failed}` : '–'}
+        />
+      </dl>
+    </section>
+  );
+};
+
+export default MetricsDashboard;
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Bell, CheckCircle2, Info } from 'lucide-react';
+import { Button } from './ui/button';
+import DesktopNotificationOptions from './DesktopNotificationOptions';
+import { useNotifications } from '../hooks/useNotifications';
+import { AppNotification, dismissAll, groupNotifications, markAllRead, unreadCount } from '../lib/notifications';
+
+interface NotificationCenterProps {
+  onSelectJob: (jobId: string) => void;
+}
+
+const LevelIcon: React.FC<{ level: AppNotification['level'] }> = ({ level }) => {
+  switch (level) {
+    case 'success':
+      return <CheckCircle2 className="w-4 h-4 shrink-0 text-green-600" />;
+    case 'error':
+      return <AlertCircle className="w-4 h-4 shrink-0 text-red-600" />;
+    default:
+      return <Info className="w-4 h-4 shrink-0 text-gray-400" />;
+  }
+};
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ onSelectJob }) => {
+  const notifications = useNotifications();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const unread = unreadCount(notifications);
+
+  // Whatever was on screen while the panel was open counts as read once it
+  // closes, so new entries stay highlighted for as long as they are shown.
+  const close = () => {
+    setOpen(false);
+    markAllRead();
+  };
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const handlePointer = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+        markAllRead();
+      }
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false);
+        markAllRead();
+      }
+    };
+    document.addEventListener('mousedown', handlePointer);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handlePointer);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open]);
+
+  const handleSelect = (notification: AppNotification) => {
+    if (notification.jobId) {
+      onSelectJob(notification.jobId);
+      close();
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative mr-4">
+      <Button
+        onClick={() => (open ? close() : setOpen(true))}
+        size="sm"
+        variant="ghost"
+        className="relative text-white"
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+        aria-expanded={open}
+      >
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] rounded-full bg-red-500 px-1 text-xs font-semibold leading-5">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </Button>
+      {open && (
+        <div className="absolute right-0 top-full z-40 mt-2 w-80 rounded-lg bg-white text-sm font-normal text-gray-900 shadow-xl">
+          <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+            <span className="font-medium">Notifications</span>
+            <Button variant="ghost" size="sm" onClick={dismissAll} disabled={notifications.length === 0}>
+              Dismiss all
+            </Button>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-gray-500">Nothing yet.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              {groupNotifications(notifications).map(({ group, label, notifications: entries }) => (
+                <section key={group}>
+                  <h3 className="bg-gray-50 px-4 py-1 text-xs font-semibold uppercase text-gray-500">{label}</h3>
+                  <ul>
+                    {entries.map(notification => (
+                      <li key={notification.id}>
+                        <button
+                          className={`flex w-full items-start gap-2 px-4 py-2 text-left ${
+                            notification.read ? '' : 'bg-blue-50'
+                          } ${notification.jobId ? 'hover:bg-gray-100' : 'cursor-default'}`}
+                          onClick={() => handleSelect(notification)}
+                        >
+                          <LevelIcon level={notification.level} />
+                          <span className="min-w-0">
+                            <span className="block font-medium">{notification.title}</span>
+                            {notification.description && (
+                              <span className="block truncate text-gray-600" title={notification.description}>
+                                {notification.description}
+                              </span>
+                            )}
+                            <span className="block text-xs text-gray-400">
+                              {new Date(notification.timestamp).toLocaleTimeString()}
+                            </span>
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              ))}
+            </div>
+          )}
+          <DesktopNotificationOptions />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
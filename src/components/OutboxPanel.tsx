@@ -0,0 +1,63 @@
+import React from 'react';
+import { Clock, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Job, jobLabel } from '../lib/jobs';
+import { OutboxEntry } from '../lib/outbox';
+
+interface OutboxPanelProps {
+  entries: OutboxEntry[];
+  jobs: Job[];
+  connected: boolean;
+  onDiscard: (entry: OutboxEntry) => void;
+}
+
+const describeCommand = ({ command }: OutboxEntry, jobs: Job[]) => {
+  const job = jobs.find(candidate => candidate.jobId === command.jobId);
+  switch (command.type) {
+    case 'start_processing':
+      return `Start video for ${job ? jobLabel(job) : command.filename}`;
+    case 'start_sequence':
+      return `Start video for ${job ? jobLabel(job) : `sequence of ${command.frames.length} images`}`;
+    case 'cancel_processing':
+      return `Cancel ${job ? jobLabel(job) : command.jobId}`;
+  }
+};
+
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ entries, jobs, connected, onDiscard }) => {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <h3 className="flex items-center text-sm font-medium text-amber-900">
+        <Clock className="mr-2 w-4 h-4" />
+        {connected ? 'Sending to the server...' : 'Waiting for the connection to send'}
+      </h3>
+      <ol className="mt-2 space-y-1">
+        {entries.map(entry => (
+          <li
+            key={`${entry.command.type}:${entry.command.jobId}`}
+            className="flex items-center justify-between text-sm text-amber-900"
+          >
+            <span className="truncate">{describeCommand(entry, jobs)}</span>
+            <span className="ml-2 flex shrink-0 items-center text-xs text-amber-700">
+              queued {new Date(entry.queuedAt).toLocaleTimeString()}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-1 h-6 w-6"
+                aria-label="Discard command"
+                onClick={() => onDiscard(entry)}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default OutboxPanel;
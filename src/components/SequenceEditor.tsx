@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { GripVertical } from 'lucide-react';
+import {
+  MAX_HOLD,
+  MIN_HOLD,
+  SEQUENCE_TRANSITIONS,
+  SequenceFrame,
+  SequenceTransition,
+  clampHold,
+  moveItem,
+} from '../lib/sequence';
+
+interface SequenceEditorProps {
+  frames: SequenceFrame[];
+  onChange: (frames: SequenceFrame[]) => void;
+}
+
+const SequenceEditor: React.FC<SequenceEditorProps> = ({ frames, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const updateFrame = (index: number, update: Partial<SequenceFrame>) => {
+    onChange(frames.map((frame, i) => (i === index ? { ...frame, ...update } : frame)));
+  };
+
+  return (
+    <ol className="mt-2 ml-14 space-y-1">
+      {frames.map((frame, index) => (
+        <li
+          key={frame.id}
+          draggable
+          onDragStart={event => {
+            event.dataTransfer.effectAllowed = 'move';
+            setDragIndex(index);
+          }}
+          onDragOver={event => {
+            if (dragIndex === null) {
+              return;
+            }
+            event.preventDefault();
+            if (dragIndex !== index) {
+              onChange(moveItem(frames, dragIndex, index));
+              setDragIndex(index);
+            }
+          }}
+          onDrop={event => event.preventDefault()}
+          onDragEnd={() => setDragIndex(null)}
+          className={`flex items-center gap-2 rounded-md bg-gray-50 p-2 text-sm text-gray-700 ${
+            dragIndex === index ? 'opacity-50' : ''
+          }`}
+        >
+          <GripVertical className="w-4 h-4 shrink-0 cursor-grab text-gray-400" aria-label="Drag to reorder" />
+          {frame.thumbnail && <img src={frame.thumbnail} alt="" className="w-8 h-8 shrink-0 rounded object-cover" />}
+          <span className="flex-1 truncate">{frame.file.name}</span>
+          <label className="flex items-center">
+            Hold
+            <input
+              type="number"
+              className="ml-1 w-16 rounded border-gray-300 py-0.5 text-sm"
+              min={MIN_HOLD}
+              max={MAX_HOLD}
+              step={0.5}
+              value={frame.hold}
+              onChange={event => {
+                const hold = Number(event.target.value);
+                if (event.target.value !== '' && Number.isFinite(hold)) {
+                  updateFrame(index, { hold: clampHold(hold) });
+                }
+              }}
+            />
+            <span className="ml-1">s</span>
+          </label>
+          <label className="flex items-center">
+            then
+            <select
+              className="ml-1 rounded border-gray-300 py-0.5 text-sm"
+              value={frame.transition}
+              disabled={index === frames.length - 1}
+              onChange={event => updateFrame(index, { transition: event.target.value as SequenceTransition })}
+            >
+              {SEQUENCE_TRANSITIONS.map(transition => (
+                <option key={transition} value={transition}>{transition}</option>
+              ))}
+            </select>
+          </label>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SequenceEditor;
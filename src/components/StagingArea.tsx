@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Layers, SlidersHorizontal, Trash2, Ungroup, Wand2 } from 'lucide-react';
+import Thumbnail from './Thumbnail';
+import GenerationSettingsFields from './GenerationSettingsFields';
+import SequenceEditor from './SequenceEditor';
+import { Button } from './ui/button';
+import { Job, isSequence, jobLabel } from '../lib/jobs';
+import { formatBytes } from '../lib/format';
+import { GenerationOverrides, GenerationSettings, resolveGenerationSettings } from '../lib/generation';
+import { SequenceFrame, sequenceHoldTime } from '../lib/sequence';
+
+interface StagingAreaProps {
+  jobs: Job[];
+  canGenerate: boolean;
+  onGenerate: () => void;
+  onRemove: (job: Job) => void;
+  onMove: (job: Job, offset: -1 | 1) => void;
+  defaults: GenerationSettings;
+  onOverride: (job: Job, overrides: GenerationOverrides | null) => void;
+  onCombine: (jobs: Job[]) => void;
+  onSplit: (job: Job) => void;
+  onFramesChange: (job: Job, frames: SequenceFrame[]) => void;
+}
+
+const describeFile = (job: Job) =>
+  `${job.file.type || 'unknown type'} · ${formatBytes(job.file.size)}` +
+  `${job.width && job.height ? ` · ${job.width}×${job.height}` : ''} · modified ` +
+  new Date(job.file.lastModified).toLocaleString();
+
+const describeSequence = (frames: SequenceFrame[]) =>
+  `${formatBytes(frames.reduce((total, frame) => total + frame.file.size, 0))} · ` +
+  `${sequenceHoldTime(frames)}s of stills · drag to reorder`;
+
+const StagingArea: React.FC<StagingAreaProps> = ({
+  jobs,
+  canGenerate,
+  onGenerate,
+  onRemove,
+  onMove,
+  defaults,
+  onOverride,
+  onCombine,
+  onSplit,
+  onFramesChange,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+  const ready = jobs.filter(job => job.status === 'staged').length;
+  // Kept in list order, which becomes the initial frame order.
+  const selected = jobs.filter(job => selectedIds.includes(job.id));
+
+  const toggleSelected = (job: Job) => {
+    setSelectedIds(ids => (ids.includes(job.id) ? ids.filter(id => id !== job.id) : [...ids, job.id]));
+  };
+
+  const combine = () => {
+    onCombine(selected);
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="mt-6 border border-dashed border-gray-300 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-700">
+          Ready to generate ({ready})
+        </h2>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={combine} disabled={selected.length < 2}>
+            <Layers className="mr-2 w-4 h-4" /> Combine into one video{selected.length > 1 ? ` (${selected.length})` : ''}
+          </Button>
+          <Button onClick={onGenerate} disabled={!canGenerate || ready === 0} className="bg-blue-500 hover:bg-blue-600 text-white">
+            <Wand2 className="mr-2 w-4 h-4" /> Generate
+          </Button>
+        </div>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {jobs.map((job, index) => (
+          <li key={job.id} className="py-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center min-w-0">
+                <input
+                  type="checkbox"
+                  className="mr-3 rounded border-gray-300"
+                  aria-label={`Select ${job.file.name} for a sequence`}
+                  checked={selectedIds.includes(job.id)}
+                  disabled={job.status === 'rejected' || isSequence(job)}
+                  onChange={() => toggleSelected(job)}
+                />
+                <Thumbnail job={job} />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{jobLabel(job)}</p>
+                  {job.status === 'rejected' ? (
+                    <p className="text-xs text-red-600">{job.error}</p>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {job.frames ? describeSequence(job.frames) : describeFile(job)}
+                      {job.overrides && <span className="ml-1 text-blue-600">· custom settings</span>}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center shrink-0">
+                {isSequence(job) && (
+                  <Button variant="ghost" size="icon" aria-label="Split into separate images" onClick={() => onSplit(job)}>
+                    <Ungroup className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Settings for ${jobLabel(job)}`}
+                  aria-expanded={editingId === job.id}
+                  disabled={job.status === 'rejected'}
+                  onClick={() => setEditingId(editingId === job.id ? null : job.id)}
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Move ${jobLabel(job)} up`}
+                  disabled={index === 0 || job.status === 'rejected'}
+                  onClick={() => onMove(job, -1)}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Move ${jobLabel(job)} down`}
+                  disabled={index === jobs.length - 1 || job.status === 'rejected'}
+                  onClick={() => onMove(job, 1)}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${jobLabel(job)}`}
+                  onClick={() => onRemove(job)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            {job.frames && <SequenceEditor frames={job.frames} onChange={frames => onFramesChange(job, frames)} />}
+            {editingId === job.id && job.status === 'staged' && (
+              <div className="mt-2 ml-14 rounded-md bg-gray-50 p-3">
+                <GenerationSettingsFields
+                  value={resolveGenerationSettings(defaults, job.overrides)}
+                  onChange={update => onOverride(job, { ...job.overrides, ...update })}
+                />
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="px-0"
+                  disabled={!job.overrides}
+                  onClick={() => onOverride(job, null)}
+                >
+                  Use default settings
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default StagingArea;
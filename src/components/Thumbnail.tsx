@@ -0,0 +1,14 @@
+import React from 'react';
+import { ImageOff } from 'lucide-react';
+import { Job } from '../lib/jobs';
+
+const Thumbnail: React.FC<{ job: Job }> = ({ job }) =>
+  job.thumbnail ? (
+    <img src={job.thumbnail} alt="" className="w-12 h-12 mr-3 shrink-0 rounded object-cover bg-gray-100" />
+  ) : (
+    <div className="w-12 h-12 mr-3 shrink-0 rounded bg-gray-100 flex items-center justify-center text-gray-400">
+      <ImageOff className="w-5 h-5" />
+    </div>
+  );
+
+export default Thumbnail;
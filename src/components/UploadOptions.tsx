@@ -0,0 +1,68 @@
+import React from 'react';
+import { useSettings } from '../hooks/useSettings';
+
+const CONCURRENCY_CHOICES = [1, 2, 3, 4, 6, 8];
+const DIMENSION_CHOICES = [1024, 1280, 1920, 2560, 3840];
+
+const UploadOptions: React.FC = () => {
+  const [settings, updateSettings] = useSettings();
+
+  return (
+    <details className="mt-3 text-sm text-gray-700">
+      <summary className="cursor-pointer font-medium">Upload options</summary>
+      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="mr-2 rounded border-gray-300"
+            checked={settings.autoGenerate}
+            onChange={event => updateSettings({ autoGenerate: event.target.checked })}
+          />
+          Auto-generate on select
+        </label>
+        <label className="flex items-center">
+          Parallel uploads
+          <select
+            className="ml-2 rounded border-gray-300 py-1 text-sm"
+            value={settings.uploadConcurrency}
+            onChange={event => updateSettings({ uploadConcurrency: Number(event.target.value) })}
+          >
+            {CONCURRENCY_CHOICES.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="mr-2 rounded border-gray-300"
+            checked={settings.downscaleImages}
+            onChange={event => updateSettings({ downscaleImages: event.target.checked })}
+          />
+          Downscale to at most
+          <select
+            className="ml-2 rounded border-gray-300 py-1 text-sm"
+            value={settings.maxImageDimension}
+            disabled={!settings.downscaleImages}
+            onChange={event => updateSettings({ maxImageDimension: Number(event.target.value) })}
+          >
+            {DIMENSION_CHOICES.map(value => (
+              <option key={value} value={value}>{value}px</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="mr-2 rounded border-gray-300"
+            checked={settings.fixOrientation}
+            onChange={event => updateSettings({ fixOrientation: event.target.checked })}
+          />
+          Correct EXIF orientation
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default UploadOptions;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Download, Film, Link } from 'lucide-react';
+import { Button } from './ui/button';
+import { useToast } from './ui/use-toast';
+import { Job } from '../lib/jobs';
+import { absoluteUrl, downloadVideo, saveBlob, videoFilename } from '../lib/downloads';
+import { AnimationFormat, MAX_EXPORT_SECONDS, exportAnimation } from '../lib/animationExport';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('downloads');
+
+interface VideoActionsProps {
+  job: Job;
+}
+
+const VideoActions: React.FC<VideoActionsProps> = ({ job }) => {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [seconds, setSeconds] = useState(3);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
+  if (!job.videoUrl) {
+    return null;
+  }
+  const videoUrl = job.videoUrl;
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadVideo(job);
+    } catch (error) {
+      log.error('Download failed', error);
+      toast({ title: 'Download failed', description: 'The video could not be fetched.', variant: 'destructive' });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(absoluteUrl(videoUrl));
+      toast({ title: 'Link copied', description: 'The video link is on your clipboard.' });
+    } catch {
+      toast({ title: 'Copy failed', description: 'Clipboard access was denied.', variant: 'destructive' });
+    }
+  };
+
+  const handleExport = async () => {
+    setExportProgress(0);
+    try {
+      const blob = await exportAnimation(videoUrl, {
+        format,
+        seconds,
+        onProgress: (done, total) => setExportProgress(Math.round((done / total) * 100)),
+      });
+      saveBlob(blob, videoFilename(job, format));
+    } catch (error) {
+      log.error('Export failed', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'The animation could not be created.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+      <Button variant="outline" size="sm" onClick={handleDownload} disabled={downloading}>
+        <Download className="mr-1 w-4 h-4" /> {downloading ? 'Downloading...' : 'Download'}
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleCopyLink}>
+        <Link className="mr-1 w-4 h-4" /> Copy link
+      </Button>
+      <div className="flex items-center gap-1">
+        <select
+          aria-label="Animation format"
+          className="rounded border-gray-300 py-1 text-sm"
+          value={format}
+          onChange={event => setFormat(event.target.value as AnimationFormat)}
+        >
+          <option value="gif">GIF</option>
+          <option value="webp">WebP</option>
+        </select>
+        <label className="flex items-center">
+          first
+          <input
+            type="number"
+            className="mx-1 w-14 rounded border-gray-300 py-1 text-sm"
+            min={1}
+            max={MAX_EXPORT_SECONDS}
+            value={seconds}
+            onChange={event => {
+              const value = Number(event.target.value);
+              if (event.target.value !== '' && Number.isFinite(value)) {
+                setSeconds(Math.min(MAX_EXPORT_SECONDS, Math.max(1, Math.round(value))));
+              }
+            }}
+          />
+          s
+        </label>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={exportProgress !== null}>
+          <Film className="mr-1 w-4 h-4" /> {exportProgress !== null ? `Exporting ${exportProgress}%` : 'Export'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoActions;
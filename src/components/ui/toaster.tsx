@@ -6,7 +6,11 @@ import {
   ToastTitle,
   ToastViewport,
 } from "src/components/ui/toast"
-import { useToast } from "src/components/ui/use-toast"
+import {
+  ERROR_TOAST_DURATION,
+  TOAST_DURATION,
+  useToast,
+} from "src/components/ui/use-toast"
 
 export function Toaster() {
   const { toasts } = useToast()
@@ -15,7 +19,15 @@ export function Toaster() {
     <ToastProvider>
       {toasts.map(function ({ id, title, description, action, ...props }) {
         return (
-          <Toast key={id} {...props}>
+          <Toast
+            key={id}
+            duration={
+              props.variant === "destructive"
+                ? ERROR_TOAST_DURATION
+                : TOAST_DURATION
+            }
+            {...props}
+          >
             <div className="grid gap-1">
               {title && <ToastTitle>{title}</ToastTitle>}
               {description && (
@@ -5,9 +5,13 @@ import type {
   ToastActionElement,
   ToastProps,
 } from "src/components/ui/toast"
+import { TOAST_LIMIT } from "src/config"
 
-const TOAST_LIMIT = 1
-const TOAST_REMOVE_DELAY = 1000000
+// How long a dismissed toast stays mounted, for its exit animation.
+const TOAST_REMOVE_DELAY = 1000
+export const TOAST_DURATION = 5000
+// Errors stay up longer so there is time to read them.
+export const ERROR_TOAST_DURATION = 10000
 
 type ToasterToast = ToastProps & {
   id: string
@@ -0,0 +1,43 @@
+// REACT_APP_BACKEND=mock runs against an in-memory backend instead of the
+// network (see src/lib/mockBackend.ts). Its video URLs are complete already.
+export const MOCK_BACKEND = process.env.REACT_APP_BACKEND === "mock";
+export const MOCK_VIDEO_URL = process.env.REACT_APP_MOCK_VIDEO_URL || null;
+
+export const WEBSOCKET_URL = process.env.REACT_APP_WEBSOCKET_URL || "ws://localhost:8000/ws";
+export const API_URL = MOCK_BACKEND ? "" : process.env.REACT_APP_API_URL || "http://localhost:8000";
+
+// "disabled" hides every way of saving a finished video (download, copy
+// link, ZIP and animation export) and blocks the player's context menu.
+export type DownloadPolicy = "enabled" | "disabled";
+export const DOWNLOAD_POLICY: DownloadPolicy =
+  process.env.REACT_APP_DOWNLOAD_POLICY === "disabled" ? "disabled" : "enabled";
+
+// Set to "disabled" for backends that do not require signing in.
+export const AUTH_ENABLED = process.env.REACT_APP_AUTH !== "disabled";
+
+// Ways of reaching the backend, tried in this order. A later one takes over
+// when the ones before it never manage to connect, e.g. behind proxies that
+// block WebSocket upgrades. Comma-separated in REACT_APP_TRANSPORTS.
+export type TransportKind = "websocket" | "sse" | "polling";
+const KNOWN_TRANSPORTS: TransportKind[] = ["websocket", "sse", "polling"];
+const configuredTransports = (process.env.REACT_APP_TRANSPORTS || "")
+  .split(",")
+  .map(kind => kind.trim())
+  .filter((kind): kind is TransportKind => KNOWN_TRANSPORTS.includes(kind as TransportKind));
+export const TRANSPORTS: TransportKind[] = configuredTransports.length > 0 ? configuredTransports : KNOWN_TRANSPORTS;
+
+// How many toasts can be on screen at once; older ones make room.
+export const TOAST_LIMIT = Number(process.env.REACT_APP_TOAST_LIMIT) || 3;
+
+// Console output threshold: "debug", "info", "warn", "error" or "silent".
+// The in-app diagnostics panel records every level regardless. Tests read
+// the panel's log instead of the console.
+const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+export const LOG_LEVEL: LogLevel = LOG_LEVELS.includes(process.env.REACT_APP_LOG_LEVEL as LogLevel)
+  ? (process.env.REACT_APP_LOG_LEVEL as LogLevel)
+  : { production: "error", test: "silent", development: "warn" }[process.env.NODE_ENV] as LogLevel;
+
+// Where job metrics and web vitals are posted, one JSON object per beacon.
+// Without it they only show up in the diagnostics panel.
+export const METRICS_URL = process.env.REACT_APP_METRICS_URL || null;
@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { AuthState, getAuthState, subscribeAuth } from '../lib/auth';
+
+export function useAuth(): AuthState {
+  const [state, setState] = useState<AuthState>(getAuthState);
+
+  useEffect(() => subscribeAuth(setState), []);
+
+  return state;
+}
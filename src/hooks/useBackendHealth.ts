@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BackendProfile } from '../lib/backendProfiles';
+import { clientFor, probeSocketFactory } from '../lib/backend';
+import { HealthReport, checkBackend } from '../lib/healthCheck';
+
+// Checks a profile whenever its URLs change, or on recheck. Checking is
+// derived during render from which URLs the last report was for, so the
+// render that enables the check or changes the URLs already holds the
+// socket back.
+export function useBackendHealth(profile: BackendProfile, enabled = true) {
+  const [result, setResult] = useState<{ key: string; report: HealthReport } | null>(null);
+  const [run, setRun] = useState(0);
+  const { apiUrl, websocketUrl } = profile;
+  const key = `${apiUrl}|${websocketUrl}|${run}`;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let cancelled = false;
+    checkBackend(websocketUrl, { client: clientFor(apiUrl), createSocket: probeSocketFactory }).then(report => {
+      if (!cancelled) {
+        setResult({ key, report });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [apiUrl, websocketUrl, enabled, key]);
+
+  const recheck = useCallback(() => setRun(count => count + 1), []);
+
+  const report = result && result.key === key ? result.report : null;
+  const checking = enabled && result?.key !== key;
+  return { report, checking, recheck };
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { BackendProfile, getActiveProfile, listProfiles, subscribeBackends } from '../lib/backendProfiles';
+
+export function useBackendProfiles(): { profiles: BackendProfile[]; active: BackendProfile } {
+  const [state, setState] = useState(() => ({ profiles: listProfiles(), active: getActiveProfile() }));
+
+  useEffect(
+    () => subscribeBackends(() => setState({ profiles: listProfiles(), active: getActiveProfile() })),
+    []
+  );
+
+  return state;
+}
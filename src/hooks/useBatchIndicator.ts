@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import { drawProgressIcon } from '../lib/favicon';
+import { BatchProgress } from '../lib/jobs';
+
+// Redraw the icon in 5% steps rather than on every progress frame.
+const ICON_STEPS = 20;
+
+// Shows the progress of the running batch in the tab title and icon, so it
+// can be followed from another tab.
+export function useBatchIndicator(progress: BatchProgress | null) {
+  const baseTitleRef = useRef(document.title);
+  const done = progress?.done;
+  const total = progress?.total;
+  const step = progress ? Math.floor(progress.fraction * ICON_STEPS) : null;
+
+  useEffect(() => {
+    const baseTitle = baseTitleRef.current;
+    document.title = total !== undefined ? `(${done}/${total}) ${baseTitle}` : baseTitle;
+    return () => {
+      document.title = baseTitle;
+    };
+  }, [done, total]);
+
+  useEffect(() => {
+    const link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+    if (step === null || !link) {
+      return;
+    }
+    const original = link.href;
+    const icon = drawProgressIcon(step / ICON_STEPS);
+    if (!icon) {
+      return;
+    }
+    link.href = icon;
+    return () => {
+      link.href = original;
+    };
+  }, [step]);
+}
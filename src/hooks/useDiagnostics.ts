@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { DiagnosticEntry, getDiagnostics, subscribeDiagnostics } from '../lib/diagnostics';
+
+export function useDiagnostics() {
+  const [entries, setEntries] = useState<DiagnosticEntry[]>(getDiagnostics);
+
+  useEffect(() => subscribeDiagnostics(setEntries), []);
+
+  return entries;
+}
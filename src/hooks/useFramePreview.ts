@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const PREVIEW_WIDTH = 160;
+// Previews are grabbed at this granularity (seconds) and cached.
+const PREVIEW_STEP = 0.5;
+
+// Grabs still frames for the scrubber's hover tooltip from a second,
+// off-screen copy of the video, so hovering never moves the playhead.
+// When the video cannot be drawn to a canvas (no CORS headers) the tooltip
+// falls back to showing only the time.
+export function useFramePreview(src: string) {
+  const [image, setImage] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const cacheRef = useRef(new Map<number, string | null>());
+  const wantedRef = useRef<number | null>(null);
+  const seekingRef = useRef(false);
+  const disabledRef = useRef(false);
+
+  useEffect(() => {
+    cacheRef.current = new Map();
+    disabledRef.current = false;
+    return () => {
+      videoRef.current?.removeAttribute('src');
+      videoRef.current = null;
+    };
+  }, [src]);
+
+  const capture = useCallback((video: HTMLVideoElement) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = Math.round((PREVIEW_WIDTH * video.videoHeight) / (video.videoWidth || 1));
+    try {
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      return canvas.toDataURL('image/jpeg', 0.7);
+    } catch {
+      disabledRef.current = true;
+      return null;
+    }
+  }, []);
+
+  const getVideo = useCallback(() => {
+    if (!videoRef.current) {
+      const video = document.createElement('video');
+      video.crossOrigin = 'anonymous';
+      video.muted = true;
+      video.preload = 'auto';
+      video.src = src;
+      video.addEventListener('error', () => {
+        disabledRef.current = true;
+      });
+      video.addEventListener('seeked', () => {
+        const time = video.currentTime;
+        const bucket = Math.round(time / PREVIEW_STEP) * PREVIEW_STEP;
+        cacheRef.current.set(bucket, capture(video));
+        seekingRef.current = false;
+        const wanted = wantedRef.current;
+        if (wanted === null) {
+          return;
+        }
+        if (wanted === bucket || disabledRef.current) {
+          setImage(cacheRef.current.get(bucket) ?? null);
+        } else {
+          seekingRef.current = true;
+          video.currentTime = wanted;
+        }
+      });
+      videoRef.current = video;
+    }
+    return videoRef.current;
+  }, [src, capture]);
+
+  const showPreview = useCallback((time: number) => {
+    const bucket = Math.round(time / PREVIEW_STEP) * PREVIEW_STEP;
+    wantedRef.current = bucket;
+    if (disabledRef.current || cacheRef.current.has(bucket)) {
+      setImage(cacheRef.current.get(bucket) ?? null);
+      return;
+    }
+    // The previous image stays up until the new frame is ready.
+    if (!seekingRef.current) {
+      seekingRef.current = true;
+      getVideo().currentTime = bucket;
+    }
+  }, [getVideo]);
+
+  const hidePreview = useCallback(() => {
+    wantedRef.current = null;
+    setImage(null);
+  }, []);
+
+  return { image, showPreview, hidePreview };
+}
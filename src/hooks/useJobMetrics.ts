@@ -0,0 +1,19 @@
+import { useEffect, useRef } from 'react';
+import { Job, isFinished } from '../lib/jobs';
+import { SESSION_STARTED, inSession, recordJobMetrics } from '../lib/metrics';
+
+// Reports each job of this session once, as it finishes. Every tab sees the
+// same jobs finish, so only the enabled one reports them.
+export function useJobMetrics(jobs: Job[], enabled: boolean) {
+  const reportedRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    // A retried job finishes again, and counts again.
+    const key = (job: Job) => `${job.id}@${job.finishedAt}`;
+    const finished = jobs.filter(job => isFinished(job) && inSession(job, SESSION_STARTED));
+    if (enabled) {
+      finished.filter(job => !reportedRef.current.includes(key(job))).forEach(recordJobMetrics);
+    }
+    reportedRef.current = finished.map(key);
+  }, [jobs, enabled]);
+}
@@ -0,0 +1,63 @@
+import { Dispatch, useEffect, useRef, useState } from 'react';
+import { Job, JobAction } from '../lib/jobs';
+import { deleteJobs, loadJobs, saveJobOrder, saveJobs } from '../lib/jobStore';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('storage');
+
+// Any field the reducer replaced counts as a change. Upload byte counts
+// change many times a second and are meaningless after a reload, so they
+// alone never trigger a write.
+const needsSave = (saved: Job | undefined, job: Job) =>
+  !saved || (Object.keys(job) as Array<keyof Job>).some(key => key !== 'uploadedBytes' && saved[key] !== job[key]);
+
+// Restores stored jobs once on mount, then mirrors every change to the job
+// list into IndexedDB. Returns whether the restore has finished.
+export function useJobPersistence(jobs: Job[], dispatch: Dispatch<JobAction>) {
+  const [hydrated, setHydrated] = useState(false);
+  const savedRef = useRef(new Map<string, Job>());
+  const savedOrderRef = useRef('');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadJobs()
+      .then(stored => {
+        if (cancelled) return;
+        stored.forEach(job => savedRef.current.set(job.id, job));
+        savedOrderRef.current = stored.map(job => job.id).join('|');
+        dispatch({ type: 'HYDRATE', jobs: stored, at: Date.now() });
+      })
+      .catch(error => log.error('Could not restore job history', error))
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!hydrated) {
+      return;
+    }
+    const saved = savedRef.current;
+    const changed = jobs.filter(job => needsSave(saved.get(job.id), job));
+    const currentIds = new Set(jobs.map(job => job.id));
+    const removed = Array.from(saved.keys()).filter(id => !currentIds.has(id));
+
+    changed.forEach(job => saved.set(job.id, job));
+    removed.forEach(id => saved.delete(id));
+
+    saveJobs(changed).catch(error => log.error('Could not save jobs', error));
+    deleteJobs(removed).catch(error => log.error('Could not delete jobs', error));
+
+    // Staging order is not on the jobs themselves, so it is saved apart.
+    const ids = jobs.map(job => job.id);
+    if (ids.join('|') !== savedOrderRef.current) {
+      savedOrderRef.current = ids.join('|');
+      saveJobOrder(ids).catch(error => log.error('Could not save job order', error));
+    }
+  }, [jobs, hydrated]);
+
+  return hydrated;
+}
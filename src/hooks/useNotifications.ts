@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useToast } from '../components/ui/use-toast';
+import { AppNotification, NewNotification, addNotification, getNotifications, subscribeNotifications } from '../lib/notifications';
+
+export function useNotifications(): AppNotification[] {
+  const [notifications, setNotifications] = useState<AppNotification[]>(getNotifications);
+
+  useEffect(() => subscribeNotifications(setNotifications), []);
+
+  return notifications;
+}
+
+// Logs an event in the notification center and shows it as a toast.
+export function useNotify() {
+  const { toast } = useToast();
+
+  return useCallback((notification: NewNotification) => {
+    addNotification(notification);
+    toast({
+      title: notification.title,
+      description: notification.description,
+      variant: notification.level === 'error' ? 'destructive' : 'default',
+    });
+  }, [toast]);
+}
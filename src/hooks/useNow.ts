@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every interval while active, for countdowns.
+export function useNow(active: boolean, interval = 1000) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [active, interval]);
+
+  return now;
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// An object URL for a File or Blob that is revoked when it is no longer shown.
+export function useObjectUrl(blob: Blob | null) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
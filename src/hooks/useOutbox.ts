@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { OutboxEntry, getOutbox, subscribeOutbox } from '../lib/outbox';
+
+export function useOutbox(): OutboxEntry[] {
+  const [entries, setEntries] = useState<OutboxEntry[]>(getOutbox);
+
+  useEffect(() => subscribeOutbox(setEntries), []);
+
+  return entries;
+}
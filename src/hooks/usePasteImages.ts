@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { imageFilesFromClipboard } from '../lib/fileImport';
+
+// Listens for Ctrl/Cmd+V anywhere on the page and hands over pasted images.
+// Pastes into text fields are left alone.
+export function usePasteImages(onFiles: (files: File[]) => void) {
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName))) {
+        return;
+      }
+      const files = imageFilesFromClipboard(event.clipboardData);
+      if (files.length > 0) {
+        event.preventDefault();
+        onFilesRef.current(files);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, []);
+}
@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { Settings, getSettings, subscribeSettings, updateSettings } from '../lib/settings';
+
+export function useSettings(): [Settings, (update: Partial<Settings>) => void] {
+  const [settings, setSettings] = useState<Settings>(getSettings);
+
+  useEffect(() => subscribeSettings(setSettings), []);
+
+  return [settings, updateSettings];
+}
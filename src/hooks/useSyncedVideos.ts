@@ -0,0 +1,72 @@
+import { RefObject, useEffect } from 'react';
+
+// Beyond this many seconds apart the follower is snapped back to the leader.
+const MAX_DRIFT = 0.15;
+
+// Mirrors play, pause, seeking and speed between two videos. Either one can
+// be driven by the user; while playing, the follower is nudged back into
+// step with the leader whenever they drift apart. syncKey should change
+// whenever either element may have been replaced; null turns syncing off.
+export function useSyncedVideos(
+  leaderRef: RefObject<HTMLVideoElement>,
+  followerRef: RefObject<HTMLVideoElement>,
+  syncKey: string | null
+) {
+  useEffect(() => {
+    const leader = leaderRef.current;
+    const follower = followerRef.current;
+    if (syncKey === null || !leader || !follower) {
+      return;
+    }
+
+    const mirror = (from: HTMLVideoElement, to: HTMLVideoElement) => {
+      const onPlay = () => {
+        if (to.paused) {
+          to.play().catch(() => undefined);
+        }
+      };
+      const onPause = () => {
+        if (!to.paused) {
+          to.pause();
+        }
+      };
+      const onSeeked = () => {
+        if (Math.abs(to.currentTime - from.currentTime) > MAX_DRIFT / 3) {
+          to.currentTime = from.currentTime;
+        }
+      };
+      const onRateChange = () => {
+        if (to.playbackRate !== from.playbackRate) {
+          to.playbackRate = from.playbackRate;
+        }
+      };
+      from.addEventListener('play', onPlay);
+      from.addEventListener('pause', onPause);
+      from.addEventListener('seeked', onSeeked);
+      from.addEventListener('ratechange', onRateChange);
+      return () => {
+        from.removeEventListener('play', onPlay);
+        from.removeEventListener('pause', onPause);
+        from.removeEventListener('seeked', onSeeked);
+        from.removeEventListener('ratechange', onRateChange);
+      };
+    };
+
+    const onTimeUpdate = () => {
+      if (!leader.paused && Math.abs(follower.currentTime - leader.currentTime) > MAX_DRIFT) {
+        follower.currentTime = leader.currentTime;
+      }
+    };
+
+    follower.currentTime = leader.currentTime;
+    follower.playbackRate = leader.playbackRate;
+    const stopLeader = mirror(leader, follower);
+    const stopFollower = mirror(follower, leader);
+    leader.addEventListener('timeupdate', onTimeUpdate);
+    return () => {
+      stopLeader();
+      stopFollower();
+      leader.removeEventListener('timeupdate', onTimeUpdate);
+    };
+  }, [leaderRef, followerRef, syncKey]);
+}
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TabCoordinator, TabMessage, TabRole } from '../lib/tabCoordinator';
+
+// Joins the leader election for this tab. Handlers may change on every render;
+// the latest one always receives the messages other tabs post.
+export function useTabCoordinator(onMessage: (message: TabMessage) => void) {
+  const [role, setRole] = useState<TabRole>('follower');
+  const coordinatorRef = useRef<TabCoordinator | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    const coordinator = new TabCoordinator();
+    coordinatorRef.current = coordinator;
+    coordinator.on('role', setRole);
+    coordinator.on('message', message => onMessageRef.current(message));
+    coordinator.start();
+
+    return () => {
+      coordinatorRef.current = null;
+      coordinator.dispose();
+    };
+  }, []);
+
+  const post = useCallback((message: TabMessage) => coordinatorRef.current?.post(message), []);
+
+  return { role, isLeader: role === 'leader', post };
+}
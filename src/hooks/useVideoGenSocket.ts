@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ConnectionState, StateDetail } from '../lib/videoGenSocket';
+import { InboundMessage, OutboundMessage } from '../lib/protocol';
+import { Transport, TransportOptions, createTransport } from '../lib/transport';
+import { authClient } from '../lib/auth';
+import { socketFactory } from '../lib/backend';
+import { TRANSPORTS } from '../config';
+
+export interface VideoGenSocketHandlers {
+  onMessage?: (message: InboundMessage) => void;
+  onStateChange?: (state: ConnectionState, detail: StateDetail) => void;
+  onError?: (error: Event | Error) => void;
+}
+
+// A null url keeps the socket closed, e.g. while the user is signed out.
+export function useVideoGenSocket(
+  url: string | null,
+  handlers: VideoGenSocketHandlers = {},
+  options: Partial<TransportOptions> = {}
+) {
+  const [state, setState] = useState<ConnectionState>('idle');
+  const [detail, setDetail] = useState<StateDetail | null>(null);
+  const clientRef = useRef<Transport | null>(null);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  // Options only take effect when the client is (re)created for a new URL.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!url) {
+      setState('idle');
+      setDetail(null);
+      return;
+    }
+    // Falls back from WebSocket to event streams to polling, as configured.
+    // The mock backend has no event stream.
+    const kinds = socketFactory ? TRANSPORTS.filter(kind => kind !== 'sse') : TRANSPORTS;
+    const client = createTransport(url, kinds, {
+      client: authClient,
+      ...(socketFactory ? { createSocket: socketFactory } : {}),
+      ...optionsRef.current,
+    });
+    clientRef.current = client;
+
+    client.on('state', (next, nextDetail) => {
+      setState(next);
+      setDetail(nextDetail);
+      handlersRef.current.onStateChange?.(next, nextDetail);
+    });
+    client.on('message', message => handlersRef.current.onMessage?.(message));
+    client.on('error', error => handlersRef.current.onError?.(error));
+    client.connect();
+
+    return () => {
+      clientRef.current = null;
+      client.dispose();
+    };
+  }, [url]);
+
+  const send = useCallback(
+    (message: OutboundMessage): Promise<boolean> => Promise.resolve(clientRef.current?.send(message) ?? false),
+    []
+  );
+  const reconnect = useCallback(() => clientRef.current?.reconnect(), []);
+
+  return {
+    state,
+    detail,
+    isConnected: state === 'established',
+    transport: detail?.transport ?? null,
+    send,
+    reconnect,
+  };
+}
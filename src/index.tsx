@@ -3,17 +3,26 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { loadRuntimeConfig } from './lib/backendProfiles';
+import { addMetricsSink, beaconSink, reportWebVital } from './lib/metrics';
+import { METRICS_URL } from './config';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
+// config.json can pick the backend, so it has to be in before anything
+// connects.
+loadRuntimeConfig().then(() =>
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  )
 );
 
-// If you want to start measuring performance in your app, pass a function
-// to log results (for example: reportWebVitals(console.log))
-// or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
-reportWebVitals();
+// Web vitals go to the same sinks as the job metrics. Learn more:
+// https://bit.ly/CRA-vitals
+if (METRICS_URL) {
+  addMetricsSink(beaconSink(METRICS_URL));
+}
+reportWebVitals(reportWebVital);
@@ -0,0 +1,101 @@
+import { fetchVideo } from './downloads';
+import { encodeGif } from './gif';
+import { assembleAnimatedWebp } from './webp';
+
+export type AnimationFormat = 'gif' | 'webp';
+
+export const EXPORT_FRAME_RATE = 10;
+export const EXPORT_MAX_WIDTH = 480;
+export const MAX_EXPORT_SECONDS = 10;
+
+export interface ExportOptions {
+  format: AnimationFormat;
+  seconds: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const waitFor = (video: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('The video could not be decoded for export'));
+    };
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+const canvasToWebp = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(
+      blob => {
+        if (!blob || blob.type !== 'image/webp') {
+          reject(new Error('This browser cannot encode WebP; export a GIF instead'));
+          return;
+        }
+        blob.arrayBuffer().then(bytes => resolve(new Uint8Array(bytes)), reject);
+      },
+      'image/webp',
+      0.8
+    );
+  });
+
+// Renders the first `seconds` of a video as an animated GIF or WebP in the
+// browser. The video is fetched into a blob first: drawing a cross-origin
+// <video> would taint the canvas and block reading its pixels back.
+export async function exportAnimation(videoUrl: string, { format, seconds, onProgress }: ExportOptions): Promise<Blob> {
+  const source = URL.createObjectURL(await fetchVideo(videoUrl));
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitFor(video, 'loadeddata');
+    video.src = source;
+    await loaded;
+
+    const scale = Math.min(1, EXPORT_MAX_WIDTH / video.videoWidth);
+    const width = Math.max(1, Math.round(video.videoWidth * scale));
+    const height = Math.max(1, Math.round(video.videoHeight * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+
+    const length = Math.min(seconds, MAX_EXPORT_SECONDS, video.duration);
+    const count = Math.max(1, Math.floor(length * EXPORT_FRAME_RATE));
+    const delay = 1000 / EXPORT_FRAME_RATE;
+    const gifFrames: { pixels: Uint8ClampedArray; delay: number }[] = [];
+    const webpFrames: { data: Uint8Array; duration: number }[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const seeked = waitFor(video, 'seeked');
+      video.currentTime = index / EXPORT_FRAME_RATE;
+      await seeked;
+      context.drawImage(video, 0, 0, width, height);
+      if (format === 'gif') {
+        gifFrames.push({ pixels: context.getImageData(0, 0, width, height).data, delay });
+      } else {
+        webpFrames.push({ data: await canvasToWebp(canvas), duration: delay });
+      }
+      onProgress?.(index + 1, count);
+    }
+
+    return format === 'gif'
+      ? new Blob([encodeGif(width, height, gifFrames)], { type: 'image/gif' })
+      : new Blob([assembleAnimatedWebp(width, height, webpFrames)], { type: 'image/webp' });
+  } finally {
+    video.removeAttribute('src');
+    URL.revokeObjectURL(source);
+  }
+}
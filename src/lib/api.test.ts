@@ -0,0 +1,69 @@
+import { HttpError, mapUploadResponse, withRequestLog } from './api';
+import { clearDiagnostics, getDiagnostics } from './diagnostics';
+
+const items = [
+  { clientId: 'c1', file: new File(['a'], 'IMG_0001.jpg') },
+  { clientId: 'c2', file: new File(['b'], 'IMG_0001.jpg') },
+];
+
+test('maps jobs by the echoed client_id', () => {
+  const data = {
+    jobs: [
+      { job_id: 'j2', filename: 'IMG_0001_1.jpg', client_id: 'c2' },
+      { job_id: 'j1', filename: 'IMG_0001.jpg', client_id: 'c1' },
+    ],
+  };
+  expect(mapUploadResponse(data, items)).toEqual([
+    { clientId: 'c2', jobId: 'j2', filename: 'IMG_0001_1.jpg' },
+    { clientId: 'c1', jobId: 'j1', filename: 'IMG_0001.jpg' },
+  ]);
+});
+
+test('falls back to upload order when client_id is not echoed', () => {
+  const data = {
+    jobs: [
+      { job_id: 'j1', filename: 'IMG_0001.jpg' },
+      { job_id: 'j2', filename: 'IMG_0001_1.jpg' },
+    ],
+  };
+  expect(mapUploadResponse(data, items).map(job => [job.clientId, job.jobId])).toEqual([
+    ['c1', 'j1'],
+    ['c2', 'j2'],
+  ]);
+});
+
+test('rejects malformed responses', () => {
+  expect(() => mapUploadResponse({ files: ['IMG_0001.jpg'] }, items)).toThrow('Malformed upload response');
+  expect(() => mapUploadResponse({ jobs: [{ job_id: 'j1', filename: 'x', client_id: 'nope' }] }, items)).toThrow(
+    'does not match any uploaded file'
+  );
+});
+
+test('logs each request with its status and timing', async () => {
+  clearDiagnostics();
+  let time = 0;
+  const now = () => (time += 120);
+  const client = jest
+    .fn()
+    .mockResolvedValueOnce({ status: 200, data: { jobs: [] } })
+    .mockRejectedValueOnce(new HttpError(413, 'POST /upload failed with status 413'));
+  const logged = withRequestLog(client, now);
+
+  await logged({ method: 'POST', path: '/upload', body: 'secret image' });
+  await expect(logged({ method: 'POST', path: '/upload' })).rejects.toThrow('413');
+
+  expect(getDiagnostics().map(({ source, level, message, detail }) => ({ source, level, message, detail }))).toEqual([
+    {
+      source: 'http',
+      level: 'info',
+      message: 'POST /upload 200 in 120 ms',
+      detail: { method: 'POST', path: '/upload', status: 200, duration: 120 },
+    },
+    {
+      source: 'http',
+      level: 'warn',
+      message: 'POST /upload 413 in 120 ms',
+      detail: { method: 'POST', path: '/upload', status: 413, duration: 120 },
+    },
+  ]);
+});
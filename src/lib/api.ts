@@ -0,0 +1,172 @@
+import { getApiUrl } from './backendProfiles';
+import { createLogger } from './logger';
+import { OutboundMessage, encodeOutbound } from './protocol';
+
+export interface UploadItem {
+  clientId: string;
+  file: File;
+}
+
+export interface UploadedJob {
+  clientId: string;
+  jobId: string;
+  filename: string;
+}
+
+interface UploadResponseJob {
+  job_id: string;
+  filename: string;
+  client_id?: string;
+}
+
+export interface HttpRequest {
+  method: 'GET' | 'POST' | 'PUT';
+  path: string;
+  body?: XMLHttpRequestBodyInit | null;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  onUploadProgress?: (loaded: number) => void;
+}
+
+export interface HttpResponse {
+  status: number;
+  data: unknown;
+}
+
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+// The fields of a JSON object response, or none for anything else, so
+// callers can check each one they read.
+export const responseFields = (data: unknown): Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Record<string, unknown>) : {};
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Status 0 means the request never got an answer (offline, DNS, CORS...),
+// which is worth retrying, unlike a 4xx from the server.
+export const isNetworkError = (error: unknown) => error instanceof HttpError && error.status === 0;
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// XMLHttpRequest rather than fetch, because fetch cannot report upload progress.
+// The base URL is read per request, so switching backends takes effect at once.
+export const createXhrClient = (baseUrl: () => string): HttpClient => ({
+  method,
+  path,
+  body = null,
+  headers = {},
+  signal,
+  onUploadProgress,
+}) =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload aborted', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, `${baseUrl()}${path}`);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    if (onUploadProgress) {
+      xhr.upload.onprogress = event => onUploadProgress(event.loaded);
+    }
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort);
+    const cleanup = () => signal?.removeEventListener('abort', abort);
+
+    xhr.onload = () => {
+      cleanup();
+      let data: unknown = null;
+      try {
+        data = xhr.responseText ? JSON.parse(xhr.responseText) : null;
+      } catch {
+        data = xhr.responseText;
+      }
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve({ status: xhr.status, data });
+      } else {
+        reject(new HttpError(xhr.status, `${method} ${path} failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new HttpError(0, `${method} ${path} failed: network error`));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('Upload aborted', 'AbortError'));
+    };
+
+    xhr.send(body);
+  });
+
+export const xhrClient = createXhrClient(getApiUrl);
+
+const httpLog = createLogger('http');
+
+// Records every request with its outcome and timing for the diagnostics
+// panel. Bodies and headers stay out of it; they hold images and tokens.
+export const withRequestLog = (client: HttpClient, now: () => number = Date.now): HttpClient => async request => {
+  const { method, path } = request;
+  const started = now();
+  try {
+    const response = await client(request);
+    const duration = now() - started;
+    httpLog.info(`${method} ${path} ${response.status} in ${duration} ms`, { method, path, status: response.status, duration });
+    return response;
+  } catch (error) {
+    const duration = now() - started;
+    if (isAbortError(error)) {
+      httpLog.info(`${method} ${path} aborted after ${duration} ms`, { method, path, duration });
+    } else {
+      const status = error instanceof HttpError ? error.status : null;
+      httpLog.warn(`${method} ${path} ${status ? status : 'failed'} in ${duration} ms`, { method, path, status, duration });
+    }
+    throw error;
+  }
+};
+
+const isUploadResponseJob = (value: unknown): value is UploadResponseJob => {
+  const fields = responseFields(value);
+  return (
+    typeof fields.job_id === 'string' &&
+    typeof fields.filename === 'string' &&
+    (fields.client_id === undefined || typeof fields.client_id === 'string')
+  );
+};
+
+// Pairs the jobs in an /upload response with the client IDs they were sent
+// under. The server echoes client_id when it can; otherwise jobs come back
+// in the order the files were appended to the form.
+export function mapUploadResponse(data: unknown, items: UploadItem[]): UploadedJob[] {
+  const { jobs } = responseFields(data);
+  if (!Array.isArray(jobs) || !jobs.every(isUploadResponseJob)) {
+    throw new Error('Malformed upload response');
+  }
+  const clientIds = new Set(items.map(item => item.clientId));
+
+  return jobs.map((job, index) => {
+    const clientId = job.client_id !== undefined ? job.client_id : items[index]?.clientId;
+    if (!clientId || !clientIds.has(clientId)) {
+      throw new Error(`Upload response job ${job.job_id} does not match any uploaded file`);
+    }
+    return { clientId, jobId: job.job_id, filename: job.filename };
+  });
+}
+
+// Transports without a socket of their own post commands in the same wire
+// format the WebSocket uses.
+export const postCommand = (client: HttpClient, message: OutboundMessage) =>
+  client({
+    method: 'POST',
+    path: '/commands',
+    headers: { 'Content-Type': 'application/json' },
+    body: encodeOutbound(message),
+  });
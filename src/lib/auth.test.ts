@@ -0,0 +1,163 @@
+import { HttpError, HttpRequest } from './api';
+import {
+  SESSION_EXPIRED_NOTICE,
+  getAccessToken,
+  getAuthState,
+  login,
+  logout,
+  parseTokenResponse,
+  refreshSession,
+  withAuth,
+} from './auth';
+
+// Issues numbered tokens; only the latest access and refresh tokens are
+// accepted, like a server that rotates refresh tokens.
+const createAuthServer = (options: { refusesRefresh?: boolean; offlineRefresh?: boolean } = {}) => {
+  let issued = 0;
+  let refreshToken: string | null = null;
+  const requests: HttpRequest[] = [];
+
+  const client = async (request: HttpRequest) => {
+    requests.push(request);
+    if (request.path === '/auth/login' || request.path === '/auth/refresh') {
+      if (request.path === '/auth/refresh' && options.refusesRefresh) {
+        throw new HttpError(401, 'refresh refused');
+      }
+      if (request.path === '/auth/refresh' && options.offlineRefresh) {
+        throw new HttpError(0, 'network error');
+      }
+      if (request.path === '/auth/refresh' && JSON.parse(request.body as string).refresh_token !== refreshToken) {
+        throw new HttpError(401, 'refresh token already used');
+      }
+      issued += 1;
+      refreshToken = `r${issued}`;
+      return { status: 200, data: { access_token: `a${issued}`, refresh_token: refreshToken, expires_in: 3600 } };
+    }
+    if (request.headers?.Authorization !== `Bearer a${issued}`) {
+      throw new HttpError(401, 'unauthorized');
+    }
+    return { status: 200, data: { ok: true } };
+  };
+
+  return { client, requests, expireToken: () => (issued += 1) };
+};
+
+beforeEach(() => {
+  logout();
+});
+
+test('parseTokenResponse converts expires_in into an absolute time', () => {
+  expect(parseTokenResponse({ access_token: 'a', refresh_token: 'r', expires_in: 60 }, 'ana', 1000)).toEqual({
+    username: 'ana',
+    accessToken: 'a',
+    refreshToken: 'r',
+    expiresAt: 61000,
+  });
+  expect(parseTokenResponse({ access_token: 'a' }, 'ana')).toMatchObject({ refreshToken: null, expiresAt: null });
+  expect(() => parseTokenResponse({ token: 'a' }, 'ana')).toThrow('Malformed token response');
+});
+
+test('login stores the session and sends credentials as JSON', async () => {
+  const server = createAuthServer();
+  await login('ana', 'secret', server.client);
+
+  expect(JSON.parse(server.requests[0].body as string)).toEqual({ username: 'ana', password: 'secret' });
+  expect(getAuthState().session).toMatchObject({ username: 'ana', accessToken: 'a1' });
+  expect(JSON.parse(localStorage.getItem('videogen.auth')!)).toMatchObject({ accessToken: 'a1' });
+});
+
+test('withAuth sends the bearer token', async () => {
+  const server = createAuthServer();
+  await login('ana', 'secret', server.client);
+  await withAuth(server.client)({ method: 'GET', path: '/jobs' });
+
+  expect(server.requests[1].headers).toEqual({ Authorization: 'Bearer a1' });
+});
+
+test('withAuth refreshes the token once after a 401 and retries', async () => {
+  const server = createAuthServer();
+  await login('ana', 'secret', server.client);
+  server.expireToken();
+
+  const response = await withAuth(server.client)({ method: 'GET', path: '/jobs' });
+  expect(response.data).toEqual({ ok: true });
+  expect(server.requests.map(request => request.path)).toEqual(['/auth/login', '/jobs', '/auth/refresh', '/jobs']);
+  expect(getAuthState().session?.refreshToken).toBe('r3');
+});
+
+test('a refused refresh signs the user out with a notice', async () => {
+  const server = createAuthServer({ refusesRefresh: true });
+  await login('ana', 'secret', server.client);
+  server.expireToken();
+
+  await expect(withAuth(server.client)({ method: 'GET', path: '/jobs' })).rejects.toThrow('unauthorized');
+  expect(getAuthState()).toEqual({ session: null, notice: SESSION_EXPIRED_NOTICE });
+});
+
+test('a refresh that never reaches the server keeps the session', async () => {
+  const server = createAuthServer({ offlineRefresh: true });
+  await login('ana', 'secret', server.client);
+  server.expireToken();
+
+  await expect(withAuth(server.client)({ method: 'GET', path: '/jobs' })).rejects.toThrow('network error');
+  expect(getAuthState().session?.username).toBe('ana');
+});
+
+test('getAccessToken refreshes a token that is about to expire', async () => {
+  const server = createAuthServer();
+  const client = async (request: HttpRequest) => {
+    const response = await server.client(request);
+    return request.path === '/auth/login' ? { ...response, data: { ...response.data, expires_in: 10 } } : response;
+  };
+  await login('ana', 'secret', client);
+
+  await expect(getAccessToken(client)).resolves.toBe('a2');
+});
+
+describe('with a second tab open', () => {
+  // Another tab has its own copy of the module, reading the same storage.
+  // It shares HttpError with this one, so it recognises the test server's.
+  const openTab = () => {
+    const api = jest.requireActual('./api');
+    let tab!: typeof import('./auth');
+    jest.isolateModules(() => {
+      jest.doMock('./api', () => api);
+      tab = jest.requireActual('./auth');
+    });
+    return tab;
+  };
+  // The browser tells every other tab when one writes to localStorage.
+  const deliverStorageEvent = () => window.dispatchEvent(new StorageEvent('storage', { key: 'videogen.auth' }));
+  const sentRefreshTokens = (requests: HttpRequest[]) =>
+    requests.filter(request => request.path === '/auth/refresh').map(request => JSON.parse(request.body as string).refresh_token);
+
+  test('tabs refreshing in turn each use the token the other one got', async () => {
+    const server = createAuthServer();
+    await login('ana', 'secret', server.client);
+    const other = openTab();
+
+    await refreshSession(server.client);
+    deliverStorageEvent();
+    await expect(other.refreshSession(server.client)).resolves.toMatchObject({ refreshToken: 'r3' });
+    deliverStorageEvent();
+    await expect(refreshSession(server.client)).resolves.toMatchObject({ refreshToken: 'r4' });
+    deliverStorageEvent();
+
+    expect(sentRefreshTokens(server.requests)).toEqual(['r1', 'r2', 'r3']);
+    expect(other.getAuthState().session).toMatchObject({ accessToken: 'a4', refreshToken: 'r4' });
+  });
+
+  test('a tab whose refresh token was just spent by another keeps that tab\'s session', async () => {
+    const server = createAuthServer();
+    await login('ana', 'secret', server.client);
+    const other = openTab();
+
+    await refreshSession(server.client);
+    const refreshing = other.refreshSession(server.client);
+    deliverStorageEvent();
+
+    await expect(refreshing).resolves.toMatchObject({ refreshToken: 'r2' });
+    expect(other.getAuthState().session).toMatchObject({ refreshToken: 'r2' });
+    expect(getAuthState().session).toMatchObject({ refreshToken: 'r2' });
+  });
+});
@@ -0,0 +1,169 @@
+import { HttpClient, HttpError } from './api';
+import { baseClient } from './backend';
+import { Store } from './store';
+
+export interface AuthSession {
+  username: string;
+  accessToken: string;
+  refreshToken: string | null;
+  // Epoch milliseconds, or null when the server did not say.
+  expiresAt: number | null;
+}
+
+export interface AuthState {
+  session: AuthSession | null;
+  // Why the user was signed out, shown on the login form.
+  notice: string | null;
+}
+
+const STORAGE_KEY = 'videogen.auth';
+// Tokens this close to expiry are refreshed before use, so a request never
+// leaves with one that lapses in flight.
+const EXPIRY_MARGIN = 30 * 1000;
+
+export const SESSION_EXPIRED_NOTICE = 'Your session has expired. Sign in again to continue.';
+
+// Only the session is kept; the notice is for the form on screen. Every tab
+// follows it, so a token one tab refreshed is the one the others use next.
+const auth = new Store<AuthState>(
+  { session: null, notice: null },
+  {
+    key: STORAGE_KEY,
+    parse: stored => ({ session: stored as AuthSession, notice: null }),
+    serialize: state => state.session,
+    shared: true,
+  }
+);
+
+const setAuthState = (state: AuthState) => auth.set(state);
+
+export function getAuthState() {
+  return auth.get();
+}
+
+export const subscribeAuth = (listener: (state: AuthState) => void) => auth.subscribe(listener);
+
+// Accepts the OAuth-style body the auth endpoints return.
+export function parseTokenResponse(data: unknown, username: string, now = Date.now()): AuthSession {
+  const fields = typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+  const { access_token: accessToken, refresh_token: refreshToken, expires_in: expiresIn } = fields;
+  if (typeof accessToken !== 'string') {
+    throw new Error('Malformed token response');
+  }
+  return {
+    username,
+    accessToken,
+    refreshToken: typeof refreshToken === 'string' ? refreshToken : null,
+    expiresAt: typeof expiresIn === 'number' ? now + expiresIn * 1000 : null,
+  };
+}
+
+export const isExpiring = (session: AuthSession, now = Date.now()) =>
+  session.expiresAt !== null && session.expiresAt - EXPIRY_MARGIN <= now;
+
+export async function login(username: string, password: string, client: HttpClient = baseClient) {
+  const response = await client({
+    method: 'POST',
+    path: '/auth/login',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const session = parseTokenResponse(response.data, username);
+  setAuthState({ session, notice: null });
+  return session;
+}
+
+export function logout() {
+  setAuthState({ session: null, notice: null });
+}
+
+// Signs the user out because the server no longer accepts their token.
+// Only the credential goes; queued work stays where it is.
+export function expireSession(notice = SESSION_EXPIRED_NOTICE) {
+  setAuthState({ session: null, notice });
+}
+
+let refreshing: Promise<AuthSession | null> | null = null;
+
+// Trades the refresh token for a new access token. Resolves to null when the
+// server refuses (the user has to sign in again); network failures reject,
+// since they say nothing about whether the session is still good.
+export function refreshSession(client: HttpClient = baseClient): Promise<AuthSession | null> {
+  const session = auth.get().session;
+  if (!session || !session.refreshToken) {
+    return Promise.resolve(null);
+  }
+  // Concurrent callers (parallel uploads, the socket) share one refresh.
+  if (!refreshing) {
+    refreshing = client({
+      method: 'POST',
+      path: '/auth/refresh',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: session.refreshToken }),
+    })
+      .then(response => {
+        const next = parseTokenResponse(response.data, session.username);
+        const refreshed = { ...next, refreshToken: next.refreshToken || session.refreshToken };
+        setAuthState({ session: refreshed, notice: null });
+        return refreshed;
+      })
+      .catch(error => {
+        if (error instanceof HttpError && error.status >= 400 && error.status < 500) {
+          // Another tab may have spent the same refresh token a moment
+          // earlier; its session is still good.
+          const latest = auth.get().session;
+          return latest && latest.refreshToken !== session.refreshToken ? latest : null;
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+// The current access token, refreshed first if it is about to expire.
+export async function getAccessToken(client: HttpClient = baseClient): Promise<string | null> {
+  const session = auth.get().session;
+  if (!session) {
+    return null;
+  }
+  if (!isExpiring(session)) {
+    return session.accessToken;
+  }
+  const refreshed = await refreshSession(client);
+  if (!refreshed) {
+    expireSession();
+    return null;
+  }
+  return refreshed.accessToken;
+}
+
+// Adds the bearer token to every request. A 401 gets one retry with a
+// refreshed token; if that is refused too the session is expired. A refresh
+// that never reached the server fails the request but keeps the session.
+export const withAuth = (client: HttpClient): HttpClient => async request => {
+  const send = (token: string | null) =>
+    client({
+      ...request,
+      headers: { ...request.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    });
+
+  const token = await getAccessToken(client);
+  try {
+    return await send(token);
+  } catch (error) {
+    if (!(error instanceof HttpError) || error.status !== 401 || !token) {
+      throw error;
+    }
+    const refreshed = await refreshSession(client);
+    if (!refreshed) {
+      expireSession();
+      throw error;
+    }
+    return send(refreshed.accessToken);
+  }
+};
+
+export const authClient = withAuth(baseClient);
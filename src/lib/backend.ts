@@ -0,0 +1,15 @@
+import { HttpClient, createXhrClient, withRequestLog, xhrClient } from './api';
+import { MockBackend } from './mockBackend';
+import { SocketFactory } from './videoGenSocket';
+import { MOCK_BACKEND, MOCK_VIDEO_URL } from '../config';
+
+export const mockBackend = MOCK_BACKEND ? new MockBackend({ sampleVideoUrl: MOCK_VIDEO_URL }) : null;
+
+// Where requests and sockets go unless a caller hands in its own.
+export const baseClient: HttpClient = withRequestLog(mockBackend ? mockBackend.http : xhrClient);
+export const socketFactory: SocketFactory | null = mockBackend ? mockBackend.createSocket : null;
+
+// For health checks against a profile other than the active one.
+export const clientFor = (apiUrl: string): HttpClient =>
+  withRequestLog(mockBackend ? mockBackend.http : createXhrClient(() => apiUrl));
+export const probeSocketFactory: SocketFactory = socketFactory || (url => new WebSocket(url));
@@ -0,0 +1,102 @@
+import {
+  BUILD_PROFILE,
+  getActiveProfile,
+  getApiUrl,
+  listProfiles,
+  loadRuntimeConfig,
+  parseRuntimeConfig,
+  removeProfile,
+  saveProfile,
+  selectProfile,
+  setRuntimeConfig,
+  validateProfile,
+} from './backendProfiles';
+
+const staging = { name: 'Staging', apiUrl: 'https://staging.example.com/', websocketUrl: 'wss://staging.example.com/ws' };
+
+afterEach(() => {
+  listProfiles()
+    .filter(profile => profile.source === 'user')
+    .forEach(profile => removeProfile(profile.id));
+  setRuntimeConfig({ profiles: [], defaultProfile: null });
+});
+
+test('validates names and URL schemes', () => {
+  expect(validateProfile(staging)).toBeNull();
+  expect(validateProfile({ ...staging, name: ' ' })).toMatch(/name/);
+  expect(validateProfile({ ...staging, apiUrl: 'staging.example.com' })).toMatch(/API URL/);
+  expect(validateProfile({ ...staging, websocketUrl: 'https://staging.example.com/ws' })).toMatch(/WebSocket URL/);
+});
+
+test('switches the API base at runtime and remembers the choice', () => {
+  expect(getActiveProfile()).toBe(BUILD_PROFILE);
+
+  const profile = saveProfile(staging);
+  selectProfile(profile.id);
+
+  expect(getApiUrl()).toBe('https://staging.example.com');
+  expect(JSON.parse(localStorage.getItem('videogen.backends')!).activeId).toBe(profile.id);
+
+  removeProfile(profile.id);
+  expect(getActiveProfile()).toBe(BUILD_PROFILE);
+});
+
+test('edits a profile in place', () => {
+  const profile = saveProfile(staging);
+  saveProfile({ ...staging, name: 'Staging EU' }, profile.id);
+
+  const saved = listProfiles().filter(other => other.source === 'user');
+  expect(saved.map(other => other.name)).toEqual(['Staging EU']);
+});
+
+test('reads profiles and the default from config.json, skipping bad entries', () => {
+  const config = parseRuntimeConfig({
+    profiles: [staging, { name: 'Broken', apiUrl: 'nope', websocketUrl: 'wss://x' }, null],
+    defaultProfile: 'Staging',
+  });
+
+  expect(config.profiles).toEqual([
+    {
+      id: 'config:Staging',
+      name: 'Staging',
+      apiUrl: 'https://staging.example.com',
+      websocketUrl: 'wss://staging.example.com/ws',
+      source: 'config',
+    },
+  ]);
+  expect(config.defaultProfile).toBe('config:Staging');
+});
+
+test('a chosen profile wins over the config.json default', async () => {
+  const fetchConfig = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ profiles: [staging], defaultProfile: 'Staging' }) });
+  await loadRuntimeConfig(fetchConfig);
+  expect(getActiveProfile().id).toBe('config:Staging');
+
+  selectProfile(BUILD_PROFILE.id);
+  expect(getActiveProfile()).toBe(BUILD_PROFILE);
+});
+
+test('runs on build-time URLs when config.json is missing or not JSON', async () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  await loadRuntimeConfig(jest.fn().mockResolvedValue({ ok: false }));
+  await loadRuntimeConfig(jest.fn().mockResolvedValue({ ok: true, json: async () => JSON.parse('<!doctype html>') }));
+
+  expect(listProfiles()).toEqual([BUILD_PROFILE]);
+  warn.mockRestore();
+});
+
+test('gives up on a config.json that does not answer', async () => {
+  jest.useFakeTimers();
+  const hanging = jest.fn(
+    (_url: RequestInfo | URL, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) =>
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      )
+  );
+  const loaded = loadRuntimeConfig(hanging, 3000);
+  jest.advanceTimersByTime(3000);
+  await loaded;
+
+  expect(getActiveProfile()).toBe(BUILD_PROFILE);
+  jest.useRealTimers();
+});
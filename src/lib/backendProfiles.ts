@@ -0,0 +1,188 @@
+import { createId } from './ids';
+import { createLogger } from './logger';
+import { Store } from './store';
+import { API_URL, WEBSOCKET_URL } from '../config';
+
+const log = createLogger('config');
+
+export interface BackendProfile {
+  id: string;
+  name: string;
+  apiUrl: string;
+  websocketUrl: string;
+  // Profiles from the build or from config.json cannot be edited in the app.
+  source: 'build' | 'config' | 'user';
+}
+
+export type BackendProfileInput = Pick<BackendProfile, 'name' | 'apiUrl' | 'websocketUrl'>;
+
+interface StoredBackends {
+  profiles: BackendProfile[];
+  activeId: string | null;
+}
+
+export interface RuntimeConfig {
+  profiles: BackendProfile[];
+  defaultProfile: string | null;
+}
+
+export const BUILD_PROFILE: BackendProfile = {
+  id: 'build',
+  name: 'Default',
+  apiUrl: API_URL,
+  websocketUrl: WEBSOCKET_URL,
+  source: 'build',
+};
+
+const STORAGE_KEY = 'videogen.backends';
+const CONFIG_TIMEOUT = 3000;
+
+// The API URL gets paths appended, so a trailing slash would double up.
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+const hasProtocol = (url: string, protocols: string[]) => {
+  try {
+    return protocols.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export function validateProfile(input: BackendProfileInput): string | null {
+  if (!input.name.trim()) {
+    return 'Give the profile a name.';
+  }
+  if (!hasProtocol(input.apiUrl.trim(), ['http:', 'https:'])) {
+    return 'The API URL must start with http:// or https://.';
+  }
+  if (!hasProtocol(input.websocketUrl.trim(), ['ws:', 'wss:'])) {
+    return 'The WebSocket URL must start with ws:// or wss://.';
+  }
+  return null;
+}
+
+const fieldsOf = (data: unknown) => (typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {});
+
+const configEntry = (entry: unknown): BackendProfileInput | null => {
+  const { name, apiUrl, websocketUrl } = fieldsOf(entry);
+  if (typeof name !== 'string' || typeof apiUrl !== 'string' || typeof websocketUrl !== 'string') {
+    return null;
+  }
+  const input = { name, apiUrl, websocketUrl };
+  return validateProfile(input) === null ? input : null;
+};
+
+// Reads config.json, which may list profiles and name the one to start
+// with. Malformed entries are skipped rather than failing the whole file.
+export function parseRuntimeConfig(data: unknown): RuntimeConfig {
+  const fields = fieldsOf(data);
+  const entries: unknown[] = Array.isArray(fields.profiles) ? fields.profiles : [];
+  const profiles = entries
+    .map(configEntry)
+    .filter((entry): entry is BackendProfileInput => entry !== null)
+    .map(entry => ({
+      id: `config:${entry.name}`,
+      name: entry.name,
+      apiUrl: trimSlash(entry.apiUrl),
+      websocketUrl: entry.websocketUrl.trim(),
+      source: 'config' as const,
+    }));
+  const defaultProfile = typeof fields.defaultProfile === 'string' ? `config:${fields.defaultProfile}` : null;
+  return { profiles, defaultProfile };
+}
+
+// Switching in one tab switches every tab, so they keep talking to the same
+// server.
+const backends = new Store<StoredBackends>(
+  { profiles: [], activeId: null },
+  {
+    key: STORAGE_KEY,
+    parse: data => {
+      const fields = fieldsOf(data);
+      return {
+        profiles: Array.isArray(fields.profiles) ? fields.profiles : [],
+        activeId: typeof fields.activeId === 'string' ? fields.activeId : null,
+      };
+    },
+    shared: true,
+  }
+);
+
+const runtimeConfig = new Store<RuntimeConfig>({ profiles: [], defaultProfile: null });
+
+export function listProfiles(): BackendProfile[] {
+  return [BUILD_PROFILE, ...runtimeConfig.get().profiles, ...backends.get().profiles];
+}
+
+// The user's choice wins, then the default named in config.json, then the
+// URLs the app was built with.
+export function getActiveProfile(): BackendProfile {
+  const profiles = listProfiles();
+  return (
+    profiles.find(profile => profile.id === backends.get().activeId) ||
+    profiles.find(profile => profile.id === runtimeConfig.get().defaultProfile) ||
+    BUILD_PROFILE
+  );
+}
+
+export const getApiUrl = () => getActiveProfile().apiUrl;
+
+export function selectProfile(id: string) {
+  backends.update(stored => ({ ...stored, activeId: id }));
+}
+
+export function saveProfile(input: BackendProfileInput, id?: string): BackendProfile {
+  const profile: BackendProfile = {
+    id: id || createId(),
+    name: input.name.trim(),
+    apiUrl: trimSlash(input.apiUrl),
+    websocketUrl: input.websocketUrl.trim(),
+    source: 'user',
+  };
+  backends.update(stored => ({
+    ...stored,
+    profiles: stored.profiles.some(other => other.id === profile.id)
+      ? stored.profiles.map(other => (other.id === profile.id ? profile : other))
+      : [...stored.profiles, profile],
+  }));
+  return profile;
+}
+
+export function removeProfile(id: string) {
+  backends.update(stored => ({
+    profiles: stored.profiles.filter(profile => profile.id !== id),
+    activeId: stored.activeId === id ? null : stored.activeId,
+  }));
+}
+
+export function setRuntimeConfig(config: RuntimeConfig) {
+  runtimeConfig.set(config);
+}
+
+// Loads config.json from next to index.html, if the deployment has one.
+// Never fails: without it, or when it takes too long, the app runs on its
+// build-time URLs.
+export async function loadRuntimeConfig(fetchConfig: typeof fetch = fetch, timeout = CONFIG_TIMEOUT) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const response = await fetchConfig(`${process.env.PUBLIC_URL}/config.json`, {
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      return;
+    }
+    setRuntimeConfig(parseRuntimeConfig(await response.json()));
+  } catch (error) {
+    // The dev server answers unknown paths with index.html, which is not JSON.
+    log.warn('No usable config.json', error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function subscribeBackends(listener: () => void) {
+  const unsubscribers = [backends.subscribe(listener), runtimeConfig.subscribe(listener)];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
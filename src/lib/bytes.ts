@@ -0,0 +1,56 @@
+// Little-endian byte buffer used by the ZIP, GIF and WebP writers.
+export class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private current: number[] = [];
+  length = 0;
+
+  byte(value: number) {
+    this.current.push(value & 0xff);
+    this.length++;
+    return this;
+  }
+
+  u16(value: number) {
+    return this.byte(value).byte(value >> 8);
+  }
+
+  u24(value: number) {
+    return this.byte(value).byte(value >> 8).byte(value >> 16);
+  }
+
+  u32(value: number) {
+    return this.byte(value).byte(value >> 8).byte(value >> 16).byte(value >>> 24);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      this.byte(text.charCodeAt(i));
+    }
+    return this;
+  }
+
+  bytes(data: Uint8Array) {
+    this.flush();
+    this.chunks.push(data);
+    this.length += data.length;
+    return this;
+  }
+
+  toUint8Array() {
+    this.flush();
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result;
+  }
+
+  private flush() {
+    if (this.current.length > 0) {
+      this.chunks.push(Uint8Array.from(this.current));
+      this.current = [];
+    }
+  }
+}
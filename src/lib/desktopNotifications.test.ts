@@ -0,0 +1,95 @@
+import { clearDiagnostics, getDiagnostics } from './diagnostics';
+import { announce, shouldAnnounce } from './desktopNotifications';
+import { defaultSettings, updateSettings } from './settings';
+
+const enabled = { desktopNotifications: true, desktopEvents: ['completed' as const, 'failed' as const] };
+
+test('announces chosen events only while the tab is hidden', () => {
+  expect(shouldAnnounce('completed', enabled, true, 'granted')).toBe(true);
+  expect(shouldAnnounce('completed', enabled, false, 'granted')).toBe(false);
+  expect(shouldAnnounce('batch', enabled, true, 'granted')).toBe(false);
+});
+
+test('stays quiet unless opted in and allowed', () => {
+  expect(shouldAnnounce('failed', { ...enabled, desktopNotifications: false }, true, 'granted')).toBe(false);
+  expect(shouldAnnounce('failed', enabled, true, 'default')).toBe(false);
+  expect(shouldAnnounce('failed', enabled, true, 'unsupported')).toBe(false);
+});
+
+class FakeNotification {
+  static permission: NotificationPermission = 'granted';
+  static shown: FakeNotification[] = [];
+  onclick: (() => void) | null = null;
+  close = jest.fn();
+
+  constructor(public title: string, public options: NotificationOptions) {
+    FakeNotification.shown.push(this);
+  }
+}
+
+const stubNotification = (stub: typeof FakeNotification) =>
+  Object.defineProperty(window, 'Notification', { configurable: true, writable: true, value: stub });
+
+describe('announce', () => {
+  let hidden = true;
+
+  beforeAll(() => {
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+  });
+
+  beforeEach(() => {
+    hidden = true;
+    FakeNotification.shown = [];
+    stubNotification(FakeNotification);
+    updateSettings({ ...defaultSettings, desktopNotifications: true });
+    clearDiagnostics();
+  });
+
+  afterAll(() => {
+    Reflect.deleteProperty(window, 'Notification');
+    Reflect.deleteProperty(document, 'hidden');
+  });
+
+  test('shows the event under the tag it was given', () => {
+    announce('completed', 'beach.png is ready', { body: 'Your video has finished.', tag: 'job-1' });
+
+    expect(FakeNotification.shown).toHaveLength(1);
+    expect(FakeNotification.shown[0].title).toBe('beach.png is ready');
+    expect(FakeNotification.shown[0].options).toMatchObject({ body: 'Your video has finished.', tag: 'job-1' });
+  });
+
+  test('stays quiet while the tab is visible', () => {
+    hidden = false;
+    announce('completed', 'beach.png is ready', { tag: 'job-1' });
+    expect(FakeNotification.shown).toHaveLength(0);
+  });
+
+  test('a click focuses the window, runs the handler and closes the notification', () => {
+    const focus = jest.spyOn(window, 'focus').mockImplementation(() => undefined);
+    const onClick = jest.fn();
+    announce('failed', 'beach.png failed', { tag: 'job-1', onClick });
+
+    const [notification] = FakeNotification.shown;
+    notification.onclick?.();
+    expect(focus).toHaveBeenCalled();
+    expect(onClick).toHaveBeenCalled();
+    expect(notification.close).toHaveBeenCalled();
+    focus.mockRestore();
+  });
+
+  test('logs instead of throwing when the browser refuses to construct one', () => {
+    stubNotification(
+      class extends FakeNotification {
+        constructor(title: string, options: NotificationOptions) {
+          super(title, options);
+          throw new TypeError('Illegal constructor');
+        }
+      }
+    );
+
+    expect(() => announce('batch', 'Batch finished', { tag: 'batch-1' })).not.toThrow();
+    expect(getDiagnostics()).toEqual([
+      expect.objectContaining({ source: 'notifications', level: 'warn', message: 'Could not show notification' }),
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { Settings, getSettings } from './settings';
+import { createLogger } from './logger';
+
+const log = createLogger('notifications');
+
+export type DesktopEvent = 'completed' | 'failed' | 'batch';
+
+export const DESKTOP_EVENT_LABELS: Record<DesktopEvent, string> = {
+  completed: 'A video is ready',
+  failed: 'A generation fails',
+  batch: 'A whole batch finishes',
+};
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+export function desktopPermission(): DesktopPermission {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+export async function requestDesktopPermission(): Promise<DesktopPermission> {
+  if (typeof Notification === 'undefined') {
+    return 'unsupported';
+  }
+  return Notification.requestPermission();
+}
+
+// Only worth interrupting for when the user is looking at something else;
+// a visible tab already shows the toast.
+export const shouldAnnounce = (
+  event: DesktopEvent,
+  settings: Pick<Settings, 'desktopNotifications' | 'desktopEvents'>,
+  hidden: boolean,
+  permission: DesktopPermission
+) => settings.desktopNotifications && settings.desktopEvents.includes(event) && hidden && permission === 'granted';
+
+export interface AnnounceOptions {
+  body?: string;
+  // Every open tab hears the same events; notifications sharing a tag
+  // replace each other, so each event is shown once.
+  tag: string;
+  onClick?: () => void;
+}
+
+export function announce(event: DesktopEvent, title: string, options: AnnounceOptions) {
+  if (!shouldAnnounce(event, getSettings(), document.hidden, desktopPermission())) {
+    return;
+  }
+  try {
+    const notification = new Notification(title, {
+      body: options.body,
+      tag: options.tag,
+      icon: `${process.env.PUBLIC_URL}/logo192.png`,
+    });
+    notification.onclick = () => {
+      window.focus();
+      options.onClick?.();
+      notification.close();
+    };
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker.
+    log.warn('Could not show notification', error);
+  }
+}
@@ -0,0 +1,70 @@
+import { Store } from './store';
+
+export type DiagnosticLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface DiagnosticEntry {
+  id: number;
+  timestamp: number;
+  level: DiagnosticLevel;
+  source: string;
+  message: string;
+  // Set on protocol frames: received from or sent to the server.
+  direction?: 'in' | 'out';
+  detail?: unknown;
+}
+
+export type NewDiagnostic = Omit<DiagnosticEntry, 'id' | 'timestamp'>;
+
+// Frames make up most of the timeline, so keep enough to cover a batch.
+const MAX_ENTRIES = 1000;
+
+const diagnostics = new Store<DiagnosticEntry[]>([]);
+let nextId = 1;
+
+// Errors and events do not survive JSON.stringify, and the log is exported
+// as JSON, so details are reduced to plain data when recorded.
+export function toPlainDetail(detail: unknown): unknown {
+  if (detail instanceof Error) {
+    return { name: detail.name, message: detail.message };
+  }
+  if (typeof Event !== 'undefined' && detail instanceof Event) {
+    return { event: detail.type };
+  }
+  if (detail === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(JSON.stringify(detail));
+  } catch {
+    return String(detail);
+  }
+}
+
+export function recordDiagnostic(entry: NewDiagnostic) {
+  const recorded = { ...entry, detail: toPlainDetail(entry.detail), id: nextId++, timestamp: Date.now() };
+  diagnostics.set([...diagnostics.get(), recorded].slice(-MAX_ENTRIES));
+}
+
+export function getDiagnostics() {
+  return diagnostics.get();
+}
+
+export function clearDiagnostics() {
+  diagnostics.set([]);
+}
+
+// What goes into a bug report: the timeline plus enough context to read it.
+export function exportDiagnostics(context: Record<string, unknown> = {}) {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+      ...context,
+      entries: diagnostics.get(),
+    },
+    null,
+    2
+  );
+}
+
+export const subscribeDiagnostics = (listener: (entries: DiagnosticEntry[]) => void) => diagnostics.subscribe(listener);
@@ -0,0 +1,26 @@
+import { createJob } from './jobs';
+import { uniqueFilenames, videoExtension, videoFilename } from './downloads';
+
+const job = (name: string) => createJob(new File(['x'], name, { type: 'image/jpeg' }));
+
+test('names videos after their source image', () => {
+  expect(videoFilename(job('IMG_0042.jpg'), 'mp4')).toBe('IMG_0042.mp4');
+  expect(videoFilename(job('holiday.final.png'), 'webm')).toBe('holiday.final.webm');
+  expect(videoFilename(job('.png'), 'mp4')).toBe('video.mp4');
+});
+
+test('picks the extension from the content type, then the URL', () => {
+  expect(videoExtension('https://cdn/v/abc', 'video/webm')).toBe('webm');
+  expect(videoExtension('https://cdn/v/abc.MOV?sig=1', '')).toBe('mov');
+  expect(videoExtension('https://cdn/v/abc', 'application/octet-stream')).toBe('mp4');
+});
+
+test('keeps archive entry names unique', () => {
+  expect(uniqueFilenames(['a.mp4', 'b.mp4', 'a.mp4', 'a.mp4', 'c'])).toEqual([
+    'a.mp4',
+    'b.mp4',
+    'a (2).mp4',
+    'a (3).mp4',
+    'c',
+  ]);
+});
@@ -0,0 +1,88 @@
+import { HttpError } from './api';
+import { Job } from './jobs';
+import { createZip } from './zip';
+
+const VIDEO_TYPES: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+};
+
+const baseName = (name: string) => name.replace(/\.[^./]+$/, '') || 'video';
+
+// Extension for a downloaded video, from its content type or else its URL.
+export function videoExtension(url: string, type = '') {
+  if (VIDEO_TYPES[type]) {
+    return VIDEO_TYPES[type];
+  }
+  const match = url.split(/[?#]/)[0].match(/\.(\w{2,4})$/);
+  return match ? match[1].toLowerCase() : 'mp4';
+}
+
+// Named after the source image, so IMG_0042.jpg becomes IMG_0042.mp4.
+export const videoFilename = (job: Job, extension: string) =>
+  `${baseName(job.file.name)}${job.frames ? '-sequence' : ''}.${extension}`;
+
+// Makes names unique within an archive: a.mp4, a (2).mp4, a (3).mp4...
+export function uniqueFilenames(names: string[]) {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    if (count === 1) {
+      return name;
+    }
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? `${name.slice(0, dot)} (${count})${name.slice(dot)}` : `${name} (${count})`;
+  });
+}
+
+export const absoluteUrl = (url: string) => new URL(url, window.location.href).href;
+
+export async function fetchVideo(url: string): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new HttpError(0, `GET ${url} failed: network error`);
+  }
+  if (!response.ok) {
+    throw new HttpError(response.status, `GET ${url} failed with status ${response.status}`);
+  }
+  return response.blob();
+}
+
+// Goes through a blob URL because the download attribute is ignored for
+// cross-origin links, which is where the videos are served from.
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function downloadVideo(job: Job) {
+  if (!job.videoUrl) {
+    return;
+  }
+  const blob = await fetchVideo(job.videoUrl);
+  saveBlob(blob, videoFilename(job, videoExtension(job.videoUrl, blob.type)));
+}
+
+export async function downloadAllAsZip(jobs: Job[], onProgress?: (done: number, total: number) => void) {
+  const finished = jobs.filter(job => job.videoUrl);
+  const names: string[] = [];
+  const files: Uint8Array[] = [];
+  for (const job of finished) {
+    const blob = await fetchVideo(job.videoUrl as string);
+    names.push(videoFilename(job, videoExtension(job.videoUrl as string, blob.type)));
+    files.push(new Uint8Array(await blob.arrayBuffer()));
+    onProgress?.(files.length, finished.length);
+  }
+  const zip = createZip(uniqueFilenames(names).map((name, index) => ({ name, data: files[index] })));
+  saveBlob(new Blob([zip], { type: 'application/zip' }), `videos-${new Date().toISOString().slice(0, 10)}.zip`);
+}
@@ -0,0 +1,26 @@
+export type EventMap = Record<string, (...args: any[]) => void>;
+
+export class Emitter<Events extends EventMap> {
+  private handlers: { [K in keyof Events]?: Events[K][] } = {};
+
+  on<K extends keyof Events>(event: K, handler: Events[K]): () => void {
+    const list = this.handlers[event] || (this.handlers[event] = []);
+    list.push(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<K extends keyof Events>(event: K, handler: Events[K]) {
+    const list = this.handlers[event];
+    if (list) {
+      this.handlers[event] = list.filter(h => h !== handler);
+    }
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>) {
+    (this.handlers[event] || []).slice().forEach(handler => handler(...args));
+  }
+
+  protected removeAllListeners() {
+    this.handlers = {};
+  }
+}
@@ -0,0 +1,28 @@
+const ICON_SIZE = 32;
+
+// Draws a progress ring for the tab icon. Returns null where there is no
+// canvas to draw on.
+export function drawProgressIcon(fraction: number): string | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = ICON_SIZE;
+  canvas.height = ICON_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  const center = ICON_SIZE / 2;
+  const radius = center - 3;
+  context.lineWidth = 6;
+
+  context.strokeStyle = '#d1d5db';
+  context.beginPath();
+  context.arc(center, center, radius, 0, 2 * Math.PI);
+  context.stroke();
+
+  context.strokeStyle = '#2563eb';
+  context.beginPath();
+  context.arc(center, center, radius, -Math.PI / 2, -Math.PI / 2 + 2 * Math.PI * Math.min(Math.max(fraction, 0), 1));
+  context.stroke();
+
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,94 @@
+import { imageFilesFromClipboard, imageFilesFromDataTransfer, isImageFile } from './fileImport';
+
+const file = (name: string, type = '') => new File(['x'], name, { type });
+
+const fileEntry = (value: File) =>
+  ({
+    isFile: true,
+    isDirectory: false,
+    file: (resolve: (file: File) => void) => resolve(value),
+  } as unknown as FileSystemEntry);
+
+// Hands out its children two at a time, then an empty batch, the way
+// browsers page through large folders.
+const folderEntry = (children: FileSystemEntry[]) =>
+  ({
+    isFile: false,
+    isDirectory: true,
+    createReader: () => {
+      let next = 0;
+      return {
+        readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+          resolve(children.slice(next, next + 2));
+          next += 2;
+        },
+      };
+    },
+  } as unknown as FileSystemEntry);
+
+const drop = (entries: Array<FileSystemEntry | null>, files: File[] = []) =>
+  ({
+    items: entries.map(entry => ({ kind: 'file', webkitGetAsEntry: () => entry })),
+    files,
+  } as unknown as DataTransfer);
+
+test('recognises images by type or, without one, by extension', () => {
+  expect(isImageFile(file('photo', 'image/png'))).toBe(true);
+  expect(isImageFile(file('IMG_0001.JPEG'))).toBe(true);
+  expect(isImageFile(file('notes.txt', 'text/plain'))).toBe(false);
+  expect(isImageFile(file('archive.zip'))).toBe(false);
+});
+
+test('walks dropped folders and keeps only the images', async () => {
+  const nested = folderEntry([fileEntry(file('c.webp')), fileEntry(file('readme.md'))]);
+  const folder = folderEntry([
+    fileEntry(file('a.png', 'image/png')),
+    fileEntry(file('notes.txt', 'text/plain')),
+    nested,
+    fileEntry(file('b.jpg')),
+    folderEntry([]),
+  ]);
+
+  const files = await imageFilesFromDataTransfer(drop([folder, fileEntry(file('d.gif', 'image/gif'))]));
+
+  expect(files.map(entry => entry.name)).toEqual(['a.png', 'c.webp', 'b.jpg', 'd.gif']);
+});
+
+test('falls back to the plain file list when entries are unavailable', async () => {
+  const files = await imageFilesFromDataTransfer(
+    drop([null], [file('a.png', 'image/png'), file('notes.txt', 'text/plain')])
+  );
+
+  expect(files.map(entry => entry.name)).toEqual(['a.png']);
+});
+
+test('passes on a folder that cannot be read', async () => {
+  const unreadable = {
+    isFile: false,
+    isDirectory: true,
+    createReader: () => ({
+      readEntries: (_: unknown, reject: (error: Error) => void) => reject(new Error('NotReadableError')),
+    }),
+  } as unknown as FileSystemEntry;
+
+  await expect(imageFilesFromDataTransfer(drop([unreadable]))).rejects.toThrow('NotReadableError');
+});
+
+test('names pasted images apart and skips everything else', () => {
+  const pasted = (value: File | null, kind = 'file') => ({ kind, type: value?.type ?? 'text/plain', getAsFile: () => value });
+  const clipboard = {
+    items: [
+      pasted(file('image.png', 'image/png')),
+      pasted(null, 'string'),
+      pasted(file('notes.txt', 'text/plain')),
+      pasted(file('image.png', 'image/jpeg')),
+    ],
+  } as unknown as DataTransfer;
+
+  const files = imageFilesFromClipboard(clipboard);
+
+  expect(files.map(entry => entry.type)).toEqual(['image/png', 'image/jpeg']);
+  expect(files[0].name).toMatch(/^pasted-[\dT-]+Z\.png$/);
+  expect(files[1].name).toMatch(/^pasted-[\dT-]+Z-2\.jpeg$/);
+  expect(imageFilesFromClipboard(null)).toEqual([]);
+});
@@ -0,0 +1,66 @@
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp|avif|heic|heif|tiff?)$/i;
+
+// Files read from directory entries often come without a MIME type, so the
+// extension is the fallback signal.
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns results in batches (100 at a time in Chrome) and
+// signals the end with an empty batch.
+const readAllEntries = async (reader: FileSystemDirectoryReader) => {
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) {
+      return entries;
+    }
+    entries.push(...batch);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await readEntryFile(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    const nested = await Promise.all(children.map(walkEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+// Collects the image files from a drop, descending into dropped folders.
+export async function imageFilesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+  const items = Array.from(dataTransfer.items || []).filter(item => item.kind === 'file');
+  // Entries have to be grabbed synchronously; the DataTransfer is emptied
+  // once the drop handler yields.
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files).filter(isImageFile);
+  }
+
+  const files = await Promise.all((entries as FileSystemEntry[]).map(walkEntry));
+  return files.flat().filter(isImageFile);
+}
+
+// Screenshots pasted from the clipboard are all called "image.png", so they
+// get a timestamped name to tell them apart in the queue.
+export function imageFilesFromClipboard(clipboardData: DataTransfer | null): File[] {
+  if (!clipboardData) {
+    return [];
+  }
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return Array.from(clipboardData.items)
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    .map((file, index) => {
+      const extension = file.type.split('/')[1] || 'png';
+      const name = `pasted-${stamp}${index > 0 ? `-${index + 1}` : ''}.${extension}`;
+      return new File([file], name, { type: file.type, lastModified: file.lastModified });
+    });
+}
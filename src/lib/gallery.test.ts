@@ -0,0 +1,26 @@
+import { createJob } from './jobs';
+import { matchesStatus, sortJobs } from './gallery';
+
+const job = (name: string, details = {}) => createJob(new File(['x'], name, { type: 'image/png' }), details);
+
+test('groups statuses into the gallery filters', () => {
+  expect(matchesStatus(job('a.png', { status: 'uploading' }), 'processing')).toBe(true);
+  expect(matchesStatus(job('a.png', { status: 'queued' }), 'processing')).toBe(true);
+  expect(matchesStatus(job('a.png', { status: 'cancelled' }), 'failed')).toBe(true);
+  expect(matchesStatus(job('a.png', { status: 'completed' }), 'failed')).toBe(false);
+  expect(matchesStatus(job('a.png', { status: 'completed' }), 'all')).toBe(true);
+});
+
+test('sorts by name naturally and by date in either direction', () => {
+  const jobs = [job('img10.png', { createdAt: 1 }), job('img2.png', { createdAt: 3 }), job('IMG1.png', { createdAt: 2 })];
+  const names = (sorted: typeof jobs) => sorted.map(item => item.file.name);
+
+  expect(names(sortJobs(jobs, 'name', 'asc'))).toEqual(['IMG1.png', 'img2.png', 'img10.png']);
+  expect(names(sortJobs(jobs, 'date', 'desc'))).toEqual(['img2.png', 'IMG1.png', 'img10.png']);
+});
+
+test('puts videos of unknown duration last', () => {
+  const jobs = [job('a.png'), job('b.png', { videoDuration: 8 }), job('c.png', { videoDuration: 3 })];
+  expect(sortJobs(jobs, 'duration', 'desc').map(item => item.file.name)).toEqual(['b.png', 'c.png', 'a.png']);
+  expect(sortJobs(jobs, 'duration', 'asc').map(item => item.file.name)).toEqual(['c.png', 'b.png', 'a.png']);
+});
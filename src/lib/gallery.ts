@@ -0,0 +1,39 @@
+import { Job, isActive } from './jobs';
+
+export type StatusFilter = 'all' | 'processing' | 'complete' | 'failed';
+export type SortKey = 'date' | 'name' | 'duration';
+export type SortDirection = 'asc' | 'desc';
+
+export const STATUS_FILTERS: Record<StatusFilter, string> = {
+  all: 'All',
+  processing: 'Processing',
+  complete: 'Complete',
+  failed: 'Failed',
+};
+
+export function matchesStatus(job: Job, filter: StatusFilter) {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'processing':
+      return isActive(job) || job.status === 'queued';
+    case 'complete':
+      return job.status === 'completed';
+    case 'failed':
+      return job.status === 'failed' || job.status === 'cancelled';
+  }
+}
+
+const compare: Record<SortKey, (a: Job, b: Job) => number> = {
+  date: (a, b) => a.createdAt - b.createdAt,
+  name: (a, b) => a.file.name.localeCompare(b.file.name, undefined, { numeric: true, sensitivity: 'base' }),
+  duration: (a, b) => (a.videoDuration as number) - (b.videoDuration as number),
+};
+
+// Jobs without a known duration always sort last, whichever the direction.
+export function sortJobs(jobs: Job[], key: SortKey, direction: SortDirection): Job[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  const known = key === 'duration' ? jobs.filter(job => job.videoDuration !== null) : jobs;
+  const unknown = key === 'duration' ? jobs.filter(job => job.videoDuration === null) : [];
+  return [...known].sort((a, b) => sign * compare[key](a, b)).concat(unknown);
+}
@@ -0,0 +1,17 @@
+import { defaultGenerationSettings, describeGenerationSettings, resolveGenerationSettings } from './generation';
+
+test('per-file overrides take precedence over the defaults', () => {
+  expect(resolveGenerationSettings(defaultGenerationSettings, { fps: 60, seed: 7, prompt: undefined })).toEqual({
+    ...defaultGenerationSettings,
+    fps: 60,
+    seed: 7,
+  });
+  expect(resolveGenerationSettings(defaultGenerationSettings, null)).toEqual(defaultGenerationSettings);
+});
+
+test('describes settings for display next to the video', () => {
+  expect(describeGenerationSettings(defaultGenerationSettings)).toBe('5s · 720p · 30 fps · subtle');
+  expect(describeGenerationSettings({ ...defaultGenerationSettings, seed: 42, prompt: 'waves' })).toBe(
+    '5s · 720p · 30 fps · subtle · seed 42 · “waves”'
+  );
+});
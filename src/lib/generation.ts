@@ -0,0 +1,75 @@
+import { createId } from './ids';
+
+export const RESOLUTIONS = ['480p', '720p', '1080p'] as const;
+export const FRAME_RATES = [24, 30, 60] as const;
+export const MOTION_STYLES = ['subtle', 'zoom-in', 'zoom-out', 'pan-left', 'pan-right', 'orbit', 'dramatic'] as const;
+
+export type Resolution = typeof RESOLUTIONS[number];
+export type FrameRate = typeof FRAME_RATES[number];
+export type MotionStyle = typeof MOTION_STYLES[number];
+
+export interface GenerationSettings {
+  duration: number;
+  resolution: Resolution;
+  fps: FrameRate;
+  motion: MotionStyle;
+  // null lets the server pick a random seed.
+  seed: number | null;
+  prompt: string;
+}
+
+export type GenerationOverrides = Partial<GenerationSettings>;
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  settings: GenerationSettings;
+}
+
+export const MIN_DURATION = 1;
+export const MAX_DURATION = 30;
+
+export const defaultGenerationSettings: GenerationSettings = {
+  duration: 5,
+  resolution: '720p',
+  fps: 30,
+  motion: 'subtle',
+  seed: null,
+  prompt: '',
+};
+
+export const createPreset = (name: string, settings: GenerationSettings): GenerationPreset => ({
+  id: createId(),
+  name,
+  settings,
+});
+
+// Drops keys that are present but undefined, so spreading the result never
+// blanks out a value.
+const definedEntries = <T extends object>(values: Partial<T>): Partial<T> => {
+  const defined: Partial<T> = {};
+  (Object.keys(values) as Array<keyof T>).forEach(key => {
+    if (values[key] !== undefined) {
+      defined[key] = values[key];
+    }
+  });
+  return defined;
+};
+
+// Per-file overrides win over the panel defaults; undefined means "inherit".
+export const resolveGenerationSettings = (
+  defaults: GenerationSettings,
+  overrides: GenerationOverrides | null
+): GenerationSettings => ({ ...defaults, ...(overrides ? definedEntries(overrides) : {}) });
+
+export const describeGenerationSettings = (settings: GenerationSettings) =>
+  [
+    `${settings.duration}s`,
+    settings.resolution,
+    `${settings.fps} fps`,
+    settings.motion,
+    settings.seed !== null ? `seed ${settings.seed}` : null,
+    settings.prompt ? `“${settings.prompt}”` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,76 @@
+import { encodeGif, lzwEncode, quantize } from './gif';
+
+// Reference GIF LZW decoder, written straight from the spec.
+function lzwDecode(data: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const out: number[] = [];
+  let previous: number[] | null = null;
+  let bit = 0;
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    out.push(...entry);
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    previous = entry;
+  }
+  return out;
+}
+
+test('LZW output decodes back to the input, including across table resets', () => {
+  let seed = 1;
+  const random = () => (seed = (seed * 16807) % 2147483647);
+  const indices = Uint8Array.from({ length: 50000 }, (_, i) => (i % 7 === 0 ? random() % 256 : i % 3));
+
+  expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices));
+  expect(lzwDecode(lzwEncode(Uint8Array.from([4, 4, 4, 4]), 8), 8)).toEqual([4, 4, 4, 4]);
+});
+
+test('maps pixels onto a palette of their most common colours', () => {
+  const pixels = Uint8ClampedArray.from([255, 0, 0, 255, 0, 0, 255, 255, 250, 2, 3, 255]);
+  const { palette, indices } = quantize(pixels);
+
+  expect(indices[0]).toBe(indices[2]);
+  expect(indices[1]).not.toBe(indices[0]);
+  expect(palette[indices[1] * 3 + 2]).toBeGreaterThan(240);
+});
+
+test('writes a looping GIF with one image per frame', () => {
+  const frame = (value: number) => ({ pixels: new Uint8ClampedArray(4 * 4 * 4).fill(value), delay: 100 });
+  const gif = encodeGif(4, 4, [frame(0), frame(255)]);
+  const ascii = (from: number, to: number) => String.fromCharCode(...Array.from(gif.slice(from, to)));
+
+  expect(ascii(0, 6)).toBe('GIF89a');
+  expect(ascii(16, 27)).toBe('NETSCAPE2.0');
+  expect(gif[gif.length - 1]).toBe(0x3b);
+
+  // First frame: graphic control extension, then the image descriptor.
+  const first = 13 + 19;
+  expect(gif[first]).toBe(0x21);
+  expect(gif[first + 4] | (gif[first + 5] << 8)).toBe(10);
+  expect(gif[first + 8]).toBe(0x2c);
+});
@@ -0,0 +1,155 @@
+import { ByteWriter } from './bytes';
+
+export interface GifFrame {
+  // RGBA pixels, as returned by CanvasRenderingContext2D.getImageData.
+  pixels: Uint8ClampedArray;
+  // Display time in milliseconds; GIF stores it in hundredths of a second.
+  delay: number;
+}
+
+interface QuantizedFrame {
+  palette: Uint8Array;
+  indices: Uint8Array;
+}
+
+const MAX_CODE = 4096;
+
+// Per-frame 256 colour palette: the most common colours after reducing each
+// channel to 5 bits, with every pixel mapped to its nearest palette entry.
+export function quantize(pixels: Uint8ClampedArray): QuantizedFrame {
+  const counts = new Uint32Array(32768);
+  const keyAt = (i: number) => ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+  for (let i = 0; i < pixels.length; i += 4) {
+    counts[keyAt(i)]++;
+  }
+
+  const used: number[] = [];
+  counts.forEach((count, key) => {
+    if (count > 0) {
+      used.push(key);
+    }
+  });
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, 256);
+
+  const palette = new Uint8Array(768);
+  chosen.forEach((key, index) => {
+    palette[index * 3] = ((key >> 10) << 3) | 4;
+    palette[index * 3 + 1] = (((key >> 5) & 31) << 3) | 4;
+    palette[index * 3 + 2] = ((key & 31) << 3) | 4;
+  });
+
+  const nearest = new Int16Array(32768).fill(-1);
+  const lookup = (key: number) => {
+    if (nearest[key] === -1) {
+      const r = ((key >> 10) << 3) | 4;
+      const g = (((key >> 5) & 31) << 3) | 4;
+      const b = ((key & 31) << 3) | 4;
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let index = 0; index < chosen.length; index++) {
+        const dr = palette[index * 3] - r;
+        const dg = palette[index * 3 + 1] - g;
+        const db = palette[index * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = index;
+        }
+      }
+      nearest[key] = best;
+    }
+    return nearest[key];
+  };
+
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    indices[i / 4] = lookup(keyAt(i));
+  }
+  return { palette, indices };
+}
+
+// Variable-length LZW as GIF specifies it, packed least significant bit first.
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bufferBits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bufferBits > 0) {
+      out.push(buffer & 0xff);
+    }
+    return Uint8Array.from(out);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const symbol = indices[i];
+    const key = (prefix << 8) | symbol;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = symbol;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    out.push(buffer & 0xff);
+  }
+  return Uint8Array.from(out);
+}
+
+// Encodes an animated GIF that loops forever.
+export function encodeGif(width: number, height: number, frames: GifFrame[]): Uint8Array {
+  const out = new ByteWriter();
+  out.ascii('GIF89a').u16(width).u16(height).byte(0).byte(0).byte(0);
+  out.byte(0x21).byte(0xff).byte(11).ascii('NETSCAPE2.0').byte(3).byte(1).u16(0).byte(0);
+
+  frames.forEach(frame => {
+    const { palette, indices } = quantize(frame.pixels);
+    out.byte(0x21).byte(0xf9).byte(4).byte(0).u16(Math.round(frame.delay / 10)).byte(0).byte(0);
+    // Image descriptor with a 256 entry local colour table.
+    out.byte(0x2c).u16(0).u16(0).u16(width).u16(height).byte(0x87).bytes(palette);
+    out.byte(8);
+    const data = lzwEncode(indices, 8);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      out.byte(block.length).bytes(block);
+    }
+    out.byte(0);
+  });
+
+  out.byte(0x3b);
+  return out.toUint8Array();
+}
@@ -0,0 +1,84 @@
+import { HttpError } from './api';
+import { checkBackend, probeUpload, probeWebSocket } from './healthCheck';
+import { SocketLike } from './videoGenSocket';
+
+const fakeSocket = () => {
+  const socket = {
+    readyState: 0,
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    onclose: null,
+    send: jest.fn(),
+    close: jest.fn(() => {
+      setTimeout(() => {
+        (socket as { readyState: number }).readyState = 3;
+        socket.onclose?.(new CloseEvent('close', { code: 1000 }));
+      }, 0);
+    }),
+  } as unknown as SocketLike;
+  return socket;
+};
+
+test('counts any HTTP answer from /upload as reachable', async () => {
+  let time = 0;
+  const now = () => (time += 40);
+  const refused = jest.fn().mockRejectedValue(new HttpError(405, 'GET /upload failed with status 405'));
+
+  expect(await probeUpload(refused, 1000, now)).toEqual({ reachable: true, latency: 40, detail: 'HTTP 405' });
+  expect(refused).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', path: '/upload' }));
+
+  const offline = jest.fn().mockRejectedValue(new HttpError(0, 'GET /upload failed: network error'));
+  expect(await probeUpload(offline)).toMatchObject({ reachable: false, latency: null });
+});
+
+test('times the WebSocket handshake and closes the probe', async () => {
+  const socket = fakeSocket();
+  let time = 100;
+  const result = probeWebSocket('ws://example/ws', () => socket, 1000, () => (time += 25));
+  socket.onopen!(new Event('open'));
+
+  expect(await result).toEqual({ reachable: true, latency: 25, detail: 'Handshake completed' });
+  expect(socket.close).toHaveBeenCalledWith(1000, 'Health check');
+});
+
+test('gives up on a handshake that never completes', async () => {
+  jest.useFakeTimers();
+  const socket = fakeSocket();
+  const result = probeWebSocket('ws://example/ws', () => socket, 1000);
+  jest.advanceTimersByTime(1000);
+  jest.runOnlyPendingTimers();
+
+  expect(await result).toEqual({ reachable: false, latency: null, detail: 'No handshake within 1s' });
+  expect(socket.close).toHaveBeenCalled();
+  jest.useRealTimers();
+});
+
+test('reports both probes', async () => {
+  const socket = fakeSocket();
+  const report = checkBackend('ws://example/ws', {
+    client: jest.fn().mockResolvedValue({ status: 200, data: null }),
+    createSocket: () => socket,
+  });
+  setTimeout(() => socket.onerror!(new Event('error')), 0);
+
+  const { upload, websocket } = await report;
+  expect(upload.reachable).toBe(true);
+  expect(websocket).toEqual({ reachable: false, latency: null, detail: 'Handshake failed' });
+});
+
+test('waits for the probe to close before reporting', async () => {
+  jest.useFakeTimers();
+  const socket = fakeSocket();
+  socket.close = jest.fn();
+  let settled = false;
+  const result = probeWebSocket('ws://example/ws', () => socket, 1000).then(() => (settled = true));
+  socket.onopen!(new Event('open'));
+  await Promise.resolve();
+  expect(settled).toBe(false);
+
+  socket.onclose!(new CloseEvent('close', { code: 1000 }));
+  await result;
+  expect(settled).toBe(true);
+  jest.useRealTimers();
+});
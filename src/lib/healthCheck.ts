@@ -0,0 +1,116 @@
+import { HttpClient, HttpError, isAbortError } from './api';
+import { SocketFactory } from './videoGenSocket';
+
+export interface ProbeResult {
+  reachable: boolean;
+  // Milliseconds until the server answered, when it did.
+  latency: number | null;
+  detail: string;
+}
+
+export interface HealthReport {
+  upload: ProbeResult;
+  websocket: ProbeResult;
+  checkedAt: number;
+}
+
+export interface HealthCheckOptions {
+  client: HttpClient;
+  createSocket: SocketFactory;
+  timeout?: number;
+  now?: () => number;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+const CLOSE_TIMEOUT = 1000;
+const SOCKET_CLOSED = 3;
+
+const elapsed = (started: number, now: () => number) => Math.round(now() - started);
+
+// Any answer from /upload shows the server is there; a GET is expected to
+// be refused with 405, which needs no credentials and uploads nothing.
+export async function probeUpload(
+  client: HttpClient,
+  timeout = DEFAULT_TIMEOUT,
+  now: () => number = Date.now
+): Promise<ProbeResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  const started = now();
+  try {
+    const response = await client({ method: 'GET', path: '/upload', signal: controller.signal });
+    return { reachable: true, latency: elapsed(started, now), detail: `HTTP ${response.status}` };
+  } catch (error) {
+    if (error instanceof HttpError && error.status > 0) {
+      return { reachable: true, latency: elapsed(started, now), detail: `HTTP ${error.status}` };
+    }
+    if (isAbortError(error)) {
+      return { reachable: false, latency: null, detail: `No answer within ${timeout / 1000}s` };
+    }
+    return { reachable: false, latency: null, detail: 'Could not reach the server' };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Times the WebSocket upgrade and closes straight away. The server only
+// serves one client, so the probe must be gone before the app connects.
+export function probeWebSocket(
+  url: string,
+  createSocket: SocketFactory,
+  timeout = DEFAULT_TIMEOUT,
+  now: () => number = Date.now
+): Promise<ProbeResult> {
+  return new Promise(resolve => {
+    const started = now();
+    let socket: ReturnType<SocketFactory>;
+    try {
+      socket = createSocket(url);
+    } catch {
+      resolve({ reachable: false, latency: null, detail: 'Invalid WebSocket URL' });
+      return;
+    }
+    let settled = false;
+    // Resolves once the close handshake is over rather than when it is asked
+    // for, with a cap for servers that never answer it.
+    const finish = (result: ProbeResult) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      socket.onopen = null;
+      socket.onerror = null;
+      if (socket.readyState === SOCKET_CLOSED) {
+        socket.onclose = null;
+        resolve(result);
+        return;
+      }
+      const closed = () => {
+        clearTimeout(closeTimer);
+        socket.onclose = null;
+        resolve(result);
+      };
+      const closeTimer = setTimeout(closed, CLOSE_TIMEOUT);
+      socket.onclose = closed;
+      socket.close(1000, 'Health check');
+    };
+    const timer = setTimeout(
+      () => finish({ reachable: false, latency: null, detail: `No handshake within ${timeout / 1000}s` }),
+      timeout
+    );
+    socket.onopen = () => finish({ reachable: true, latency: elapsed(started, now), detail: 'Handshake completed' });
+    socket.onerror = () => finish({ reachable: false, latency: null, detail: 'Handshake failed' });
+    socket.onclose = event =>
+      finish({ reachable: false, latency: null, detail: `Closed during handshake (code ${event.code})` });
+  });
+}
+
+export async function checkBackend(websocketUrl: string, options: HealthCheckOptions): Promise<HealthReport> {
+  const { client, createSocket, timeout = DEFAULT_TIMEOUT, now = Date.now } = options;
+  const [upload, websocket] = await Promise.all([
+    probeUpload(client, timeout, now),
+    probeWebSocket(websocketUrl, createSocket, timeout, now),
+  ]);
+  return { upload, websocket, checkedAt: Date.now() };
+}
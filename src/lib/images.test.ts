@@ -0,0 +1,153 @@
+import { InspectionResult, MAX_IMAGE_BYTES, checkImageFile, inspectImage, inspectImages, readExifOrientation } from './images';
+
+const file = (size: number, name: string, type: string) => new File([new Uint8Array(size)], name, { type });
+
+// Minimal JPEG: SOI, an APP1 Exif segment with one IFD entry, then SOS.
+const jpegWithOrientation = (orientation: number, littleEndian: boolean) => {
+  const bytes = new Uint8Array(2 + 2 + 2 + 6 + 8 + 2 + 12 + 4 + 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xffd8);
+  view.setUint16(2, 0xffe1);
+  view.setUint16(4, 2 + 6 + 8 + 2 + 12 + 4);
+  view.setUint32(6, 0x45786966);
+  const tiff = 12;
+  view.setUint16(tiff, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(tiff + 2, 42, littleEndian);
+  view.setUint32(tiff + 4, 8, littleEndian);
+  view.setUint16(tiff + 8, 1, littleEndian);
+  view.setUint16(tiff + 10, 0x0112, littleEndian);
+  view.setUint16(tiff + 12, 3, littleEndian);
+  view.setUint32(tiff + 14, 1, littleEndian);
+  view.setUint16(tiff + 18, orientation, littleEndian);
+  view.setUint16(bytes.length - 2, 0xffda);
+  return bytes.buffer;
+};
+
+test.each([
+  [file(0, 'empty.png', 'image/png'), 'File is empty'],
+  [file(10, 'IMG_0001.HEIC', ''), 'HEIC/HEIF photos are not supported; export them as JPEG first'],
+  [file(10, 'notes.txt', 'text/plain'), 'Unsupported file type text/plain; use PNG, JPEG, WebP, GIF or BMP'],
+  [file(MAX_IMAGE_BYTES + 1024 * 1024, 'huge.jpg', 'image/jpeg'), 'File is 21.0 MB; the limit is 20.0 MB'],
+])('rejects %p', (input, reason) => {
+  expect(checkImageFile(input)).toBe(reason);
+});
+
+test('accepts a regular image', () => {
+  expect(checkImageFile(file(10, 'frame.png', 'image/png'))).toBeNull();
+});
+
+test('reads the EXIF orientation in either byte order', () => {
+  expect(readExifOrientation(jpegWithOrientation(6, false))).toBe(6);
+  expect(readExifOrientation(jpegWithOrientation(8, true))).toBe(8);
+});
+
+test('treats non-JPEG data and missing tags as upright', () => {
+  expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+  expect(readExifOrientation(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]).buffer)).toBe(1);
+});
+
+describe('inspectImage', () => {
+  // jsdom decodes nothing, so the image reports whatever size the test sets
+  // and loads or fails as told.
+  let decoded: { width: number; height: number } | null = null;
+
+  class FakeImage {
+    naturalWidth = 0;
+    naturalHeight = 0;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    set src(_: string) {
+      setTimeout(() => {
+        if (!decoded) {
+          this.onerror?.();
+          return;
+        }
+        this.naturalWidth = decoded.width;
+        this.naturalHeight = decoded.height;
+        this.onload?.();
+      }, 0);
+    }
+  }
+
+  const originalImage = window.Image;
+
+  beforeAll(() => {
+    Object.defineProperty(window, 'Image', { configurable: true, writable: true, value: FakeImage });
+    Object.defineProperty(URL, 'createObjectURL', { configurable: true, value: () => 'blob:image' });
+    Object.defineProperty(URL, 'revokeObjectURL', { configurable: true, value: () => undefined });
+  });
+
+  // Jest resets mocks between tests, so the canvas stubs go back in each time.
+  beforeEach(() => {
+    jest
+      .spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockReturnValue({ drawImage: jest.fn(), setTransform: jest.fn() } as unknown as CanvasRenderingContext2D);
+    jest.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/jpeg;base64,thumb');
+  });
+
+  afterAll(() => {
+    Object.defineProperty(window, 'Image', { configurable: true, writable: true, value: originalImage });
+    jest.restoreAllMocks();
+  });
+
+  test('measures a readable image and makes a thumbnail', async () => {
+    decoded = { width: 1920, height: 1080 };
+    await expect(inspectImage(file(10, 'frame.png', 'image/png'))).resolves.toEqual({
+      ok: true,
+      width: 1920,
+      height: 1080,
+      thumbnail: 'data:image/jpeg;base64,thumb',
+    });
+  });
+
+  test('rejects a file the browser cannot decode', async () => {
+    decoded = null;
+    await expect(inspectImage(file(10, 'broken.png', 'image/png'))).resolves.toEqual({
+      ok: false,
+      reason: 'File is corrupted or not a readable image',
+    });
+  });
+
+  test('rejects an image without pixels', async () => {
+    decoded = { width: 0, height: 0 };
+    await expect(inspectImage(file(10, 'empty.png', 'image/png'))).resolves.toEqual({
+      ok: false,
+      reason: 'Image has no pixels',
+    });
+  });
+});
+
+test('inspects a few files at a time and keeps their order', async () => {
+  let running = 0;
+  let most = 0;
+  const inspect = async (input: File): Promise<InspectionResult> => {
+    running++;
+    most = Math.max(most, running);
+    await new Promise(resolve => setTimeout(resolve, input.size));
+    running--;
+    return { ok: true, width: input.size, height: input.size, thumbnail: input.name };
+  };
+  const files = [5, 1, 3, 2, 4].map(size => file(size, `${size}.png`, 'image/png'));
+
+  const results = await inspectImages(files, inspect, 2);
+
+  expect(most).toBe(2);
+  expect(results.map(result => (result.ok ? result.thumbnail : null))).toEqual(['5.png', '1.png', '3.png', '2.png', '4.png']);
+});
+
+test('turns an inspection that throws into a rejected file', async () => {
+  const inspect = async (input: File): Promise<InspectionResult> => {
+    if (input.name === 'bad.png') {
+      throw new Error('Canvas is not available');
+    }
+    return { ok: true, width: 1, height: 1, thumbnail: '' };
+  };
+
+  const results = await inspectImages([file(1, 'good.png', 'image/png'), file(1, 'bad.png', 'image/png')], inspect);
+
+  expect(results).toEqual([
+    { ok: true, width: 1, height: 1, thumbnail: '' },
+    { ok: false, reason: 'File could not be read as an image' },
+  ]);
+});
@@ -0,0 +1,233 @@
+import { formatBytes } from './format';
+import { createLogger } from './logger';
+import { runWithConcurrency } from './upload';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/bmp'];
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const THUMBNAIL_SIZE = 160;
+// Images decoded at once when files are added; dropping a large folder
+// would otherwise decode every image in it together.
+const INSPECT_CONCURRENCY = 4;
+
+const log = createLogger('import');
+
+export interface ImageInspection {
+  width: number;
+  height: number;
+  thumbnail: string;
+}
+
+export type InspectionResult =
+  | ({ ok: true } & ImageInspection)
+  | { ok: false; reason: string };
+
+export interface PreprocessOptions {
+  maxDimension: number | null;
+  fixOrientation: boolean;
+}
+
+// Checks that need no decoding. Returns a rejection reason, or null.
+export function checkImageFile(file: File): string | null {
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+  if (/\.(heic|heif)$/i.test(file.name) || /image\/hei[cf]/.test(file.type)) {
+    return 'HEIC/HEIF photos are not supported; export them as JPEG first';
+  }
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `Unsupported file type ${file.type || 'unknown'}; use PNG, JPEG, WebP, GIF or BMP`;
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return `File is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_IMAGE_BYTES)}`;
+  }
+  return null;
+}
+
+// Reads the EXIF orientation tag (1-8) from a JPEG. Anything that is not a
+// JPEG, or carries no orientation, reports 1 (upright).
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return 1;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const firstIfd = tiff + view.getUint32(tiff + 4, little);
+      if (firstIfd + 2 > view.byteLength) {
+        return 1;
+      }
+      const entries = view.getUint16(firstIfd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = firstIfd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) {
+          return 1;
+        }
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    // Start of scan: the metadata segments are behind us.
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) {
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// Modern browsers already honour EXIF orientation when decoding an <img>,
+// so drawing it to a canvas yields upright pixels. Older ones need the
+// transform applied by hand.
+const browserAppliesOrientation = () =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('decode failed'));
+    };
+    image.src = url;
+  });
+
+const fitWithin = (width: number, height: number, max: number | null) => {
+  if (!max || (width <= max && height <= max)) {
+    return { width, height };
+  }
+  const scale = max / Math.max(width, height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Draws the image upright and scaled to fit within maxDimension.
+const drawUpright = (image: HTMLImageElement, orientation: number, maxDimension: number | null) => {
+  const manual = orientation !== 1 && !browserAppliesOrientation();
+  const swap = manual && orientation >= 5;
+  const natural = swap
+    ? { width: image.naturalHeight, height: image.naturalWidth }
+    : { width: image.naturalWidth, height: image.naturalHeight };
+  const { width, height } = fitWithin(natural.width, natural.height, maxDimension);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  if (manual) {
+    const transforms: Record<number, [number, number, number, number, number, number]> = {
+      2: [-1, 0, 0, 1, width, 0],
+      3: [-1, 0, 0, -1, width, height],
+      4: [1, 0, 0, -1, 0, height],
+      5: [0, 1, 1, 0, 0, 0],
+      6: [0, 1, -1, 0, width, 0],
+      7: [0, -1, -1, 0, width, height],
+      8: [0, -1, 1, 0, 0, height],
+    };
+    context.setTransform(...transforms[orientation]);
+  }
+  const drawWidth = swap ? height : width;
+  const drawHeight = swap ? width : height;
+  context.drawImage(image, 0, 0, drawWidth, drawHeight);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), type, 0.92);
+  });
+
+const readOrientation = async (file: File) =>
+  file.type === 'image/jpeg' ? readExifOrientation(await file.slice(0, 128 * 1024).arrayBuffer()) : 1;
+
+// Validates a picked file and, if it is usable, returns its dimensions and
+// a small thumbnail for the queue.
+export async function inspectImage(file: File): Promise<InspectionResult> {
+  const problem = checkImageFile(file);
+  if (problem) {
+    return { ok: false, reason: problem };
+  }
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    return { ok: false, reason: 'File is corrupted or not a readable image' };
+  }
+  if (image.naturalWidth === 0 || image.naturalHeight === 0) {
+    return { ok: false, reason: 'Image has no pixels' };
+  }
+
+  const orientation = await readOrientation(file);
+  const canvas = drawUpright(image, orientation, THUMBNAIL_SIZE);
+  const swapped = orientation >= 5 && !browserAppliesOrientation();
+  return {
+    ok: true,
+    width: swapped ? image.naturalHeight : image.naturalWidth,
+    height: swapped ? image.naturalWidth : image.naturalHeight,
+    thumbnail: canvas.toDataURL('image/jpeg', 0.8),
+  };
+}
+
+// Inspects a batch of added files a few at a time, in their order. A file
+// whose inspection throws comes back rejected rather than failing the rest.
+export async function inspectImages(
+  files: File[],
+  inspect: (file: File) => Promise<InspectionResult> = inspectImage,
+  limit = INSPECT_CONCURRENCY
+): Promise<InspectionResult[]> {
+  const results: InspectionResult[] = new Array(files.length);
+  await runWithConcurrency(
+    files.map((file, index) => ({ file, index })),
+    limit,
+    async ({ file, index }) => {
+      try {
+        results[index] = await inspect(file);
+      } catch (error) {
+        log.warn(`Could not read ${file.name}`, error);
+        results[index] = { ok: false, reason: 'File could not be read as an image' };
+      }
+    }
+  );
+  return results;
+}
+
+// Re-encodes the image when it needs downscaling or rotating; otherwise the
+// original file goes up untouched. GIFs are never re-encoded, since the
+// canvas would flatten their animation.
+export async function preprocessImage(file: File, options: PreprocessOptions): Promise<File> {
+  if (file.type === 'image/gif') {
+    return file;
+  }
+  const orientation = options.fixOrientation ? await readOrientation(file) : 1;
+  const image = await loadImage(file);
+  const tooLarge =
+    options.maxDimension !== null &&
+    Math.max(image.naturalWidth, image.naturalHeight) > options.maxDimension;
+
+  if (orientation === 1 && !tooLarge) {
+    return file;
+  }
+
+  const canvas = drawUpright(image, orientation, options.maxDimension);
+  const type = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+  const blob = await canvasToBlob(canvas, type);
+  // Keep name and lastModified so the upload fingerprint stays stable.
+  return new File([blob], file.name, { type, lastModified: file.lastModified });
+}
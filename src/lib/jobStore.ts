@@ -0,0 +1,106 @@
+import { Job } from './jobs';
+import { createLogger } from './logger';
+
+const log = createLogger('storage');
+
+const DB_NAME = 'videogen';
+const DB_VERSION = 2;
+const JOBS_STORE = 'jobs';
+// Small records about the history as a whole, such as the order of the list.
+const META_STORE = 'meta';
+const ORDER_KEY = 'order';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves to null where IndexedDB is unavailable (some private browsing
+// modes, tests); persistence then silently becomes a no-op.
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(JOBS_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        log.error('Could not open job history database', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) {
+    return null;
+  }
+  return requestToPromise(run(db.transaction(name, mode).objectStore(name)));
+}
+
+// Restores the list in the order it was last saved in. Jobs missing from the
+// saved order, e.g. from before it was recorded, go first by creation time.
+export async function loadJobs(): Promise<Job[]> {
+  const jobs = (await withStore<Job[]>(JOBS_STORE, 'readonly', store => store.index('createdAt').getAll())) || [];
+  const order = (await withStore<string[] | undefined>(META_STORE, 'readonly', store => store.get(ORDER_KEY))) || [];
+  const position = (job: Job) => order.indexOf(job.id);
+  return jobs
+    .map((job, index) => ({ job, index }))
+    .sort((a, b) => position(a.job) - position(b.job) || a.index - b.index)
+    .map(({ job }) => job);
+}
+
+export async function saveJobOrder(ids: string[]) {
+  await withStore(META_STORE, 'readwrite', store => store.put(ids, ORDER_KEY));
+}
+
+// The File itself is stored too (it is structured-cloneable), so a job
+// interrupted by a reload can be retried without picking the image again.
+export async function saveJobs(jobs: Job[]) {
+  const db = await openDatabase();
+  if (!db || jobs.length === 0) {
+    return;
+  }
+  const transaction = db.transaction(JOBS_STORE, 'readwrite');
+  const store = transaction.objectStore(JOBS_STORE);
+  jobs.forEach(job => store.put(job));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteJobs(ids: string[]) {
+  const db = await openDatabase();
+  if (!db || ids.length === 0) {
+    return;
+  }
+  const transaction = db.transaction(JOBS_STORE, 'readwrite');
+  const store = transaction.objectStore(JOBS_STORE);
+  ids.forEach(id => store.delete(id));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,250 @@
+import { Job, JobsState, batchProgress, createJob, createSequence, emptyTimings, otherGenerations, reducer, splitSequence } from './jobs';
+import { defaultGenerationSettings } from './generation';
+
+const file = (name: string) => new File(['x'], name, { type: 'image/png' });
+
+const withJobs = (...jobs: Job[]): JobsState => ({ jobs });
+
+const queued = (...jobs: Job[]) =>
+  reducer(withJobs(...jobs), {
+    type: 'QUEUE',
+    ids: jobs.map(job => job.id),
+    defaults: defaultGenerationSettings,
+    at: 1,
+  });
+
+const uploaded = (job: Job, jobId: string) =>
+  reducer(
+    reducer(queued(job), { type: 'UPLOAD_STARTED', ids: [job.id], at: 1 }),
+    { type: 'UPLOAD_SUCCEEDED', uploads: [{ clientId: job.id, jobId }], at: 1 }
+  );
+
+test('new jobs start staged with a unique client id', () => {
+  const a = createJob(file('IMG_0001.jpg'));
+  const b = createJob(file('IMG_0001.jpg'));
+  expect(a.status).toBe('staged');
+  expect(a.id).not.toBe(b.id);
+});
+
+test('staged jobs are not uploaded until queued', () => {
+  const job = createJob(file('a.png'));
+  expect(reducer(withJobs(job), { type: 'UPLOAD_STARTED', ids: [job.id], at: 1 }).jobs[0].status).toBe('staged');
+  expect(reducer(queued(job), { type: 'UPLOAD_STARTED', ids: [job.id], at: 1 }).jobs[0].status).toBe('uploading');
+});
+
+test('removes staged jobs but not active ones', () => {
+  const a = createJob(file('a.png'));
+  const b = createJob(file('b.png'));
+  let state = reducer(queued(a), { type: 'UPLOAD_STARTED', ids: [a.id], at: 1 });
+  state = reducer({ jobs: [...state.jobs, b] }, { type: 'REMOVE', id: b.id });
+  state = reducer(state, { type: 'REMOVE', id: a.id });
+
+  expect(state.jobs.map(job => job.id)).toEqual([a.id]);
+});
+
+test('moves staged jobs past non-staged ones', () => {
+  const a = createJob(file('a.png'));
+  const b = createJob(file('b.png'));
+  const c = createJob(file('c.png'));
+  let state = reducer(withJobs(a, b, c), { type: 'QUEUE', ids: [b.id], defaults: defaultGenerationSettings, at: 1 });
+  state = reducer(state, { type: 'MOVE', id: c.id, offset: -1 });
+  expect(state.jobs.map(job => job.file.name)).toEqual(['c.png', 'b.png', 'a.png']);
+
+  state = reducer(state, { type: 'MOVE', id: c.id, offset: -1 });
+  expect(state.jobs.map(job => job.file.name)).toEqual(['c.png', 'b.png', 'a.png']);
+});
+
+test('walks a job from upload through generation to completion', () => {
+  const job = createJob(file('a.png'));
+  let state = uploaded(job, 'j1');
+  expect(state.jobs[0]).toMatchObject({ status: 'generating', jobId: 'j1' });
+
+  state = reducer(state, { type: 'PROGRESS', jobId: 'j1', value: 40, at: 1 });
+  expect(state.jobs[0]).toMatchObject({ status: 'generating', progress: 40 });
+
+  state = reducer(state, { type: 'COMPLETED', jobId: 'j1', videoUrl: 'http://x/a.mp4', at: 1 });
+  expect(state.jobs[0]).toMatchObject({ status: 'completed', progress: 100, videoUrl: 'http://x/a.mp4' });
+});
+
+test('routes updates by job id even when filenames collide', () => {
+  const a = createJob(file('IMG_0001.jpg'));
+  const b = createJob(file('IMG_0001.jpg'));
+  let state = reducer(queued(a, b), { type: 'UPLOAD_STARTED', ids: [a.id, b.id], at: 1 });
+  state = reducer(state, {
+    type: 'UPLOAD_SUCCEEDED',
+    uploads: [{ clientId: a.id, jobId: 'j1' }, { clientId: b.id, jobId: 'j2' }],
+    at: 1,
+  });
+  state = reducer(state, { type: 'PROGRESS', jobId: 'j2', value: 70, at: 1 });
+
+  expect(state.jobs.map(job => job.progress)).toEqual([0, 70]);
+});
+
+test('ignores events for a cancelled job', () => {
+  const job = createJob(file('a.png'));
+  let state = uploaded(job, 'j1');
+  state = reducer(state, { type: 'CANCELLED', id: job.id, at: 1 });
+  state = reducer(state, { type: 'PROGRESS', jobId: 'j1', value: 50, at: 1 });
+  state = reducer(state, { type: 'COMPLETED', jobId: 'j1', videoUrl: 'http://x/a.mp4', at: 1 });
+
+  expect(state.jobs[0]).toMatchObject({ status: 'cancelled', progress: 0, videoUrl: null });
+});
+
+test('does not resurrect a job cancelled during upload', () => {
+  const job = createJob(file('a.png'));
+  let state = reducer(queued(job), { type: 'UPLOAD_STARTED', ids: [job.id], at: 1 });
+  state = reducer(state, { type: 'CANCELLED', id: job.id, at: 1 });
+  state = reducer(state, { type: 'UPLOAD_SUCCEEDED', uploads: [{ clientId: job.id, jobId: 'j1' }], at: 1 });
+
+  expect(state.jobs[0]).toMatchObject({ status: 'cancelled', jobId: null });
+});
+
+test('retry requeues a failed job and forgets the old server job', () => {
+  const job = createJob(file('a.png'));
+  let state = uploaded(job, 'j1');
+  state = reducer(state, { type: 'FAILED', jobId: 'j1', error: 'Out of memory', at: 1 });
+  expect(state.jobs[0]).toMatchObject({ status: 'failed', error: 'Out of memory' });
+
+  state = reducer(state, { type: 'RETRY', id: job.id, defaults: defaultGenerationSettings, at: 1 });
+  expect(state.jobs[0]).toMatchObject({ status: 'queued', jobId: null, error: null, progress: 0 });
+});
+
+test('completed jobs can be neither cancelled nor retried', () => {
+  const job = createJob(file('a.png'));
+  let state = uploaded(job, 'j1');
+  state = reducer(state, { type: 'COMPLETED', jobId: 'j1', videoUrl: 'http://x/a.mp4', at: 1 });
+  const completed = reducer(reducer(state, { type: 'CANCELLED', id: job.id, at: 1 }), {
+    type: 'RETRY',
+    id: job.id,
+    defaults: defaultGenerationSettings,
+    at: 1,
+  });
+
+  expect(completed.jobs[0].status).toBe('completed');
+});
+
+test('hydrating fails interrupted uploads and archives finished jobs', () => {
+  const stored = [
+    createJob(file('a.png'), { status: 'uploading' }),
+    createJob(file('b.png'), { status: 'generating', jobId: 'j2' }),
+    createJob(file('c.png'), { status: 'completed', jobId: 'j3', videoUrl: 'http://x/c.mp4' }),
+  ];
+  const current = createJob(file('d.png'));
+  const state = reducer(withJobs(current), { type: 'HYDRATE', jobs: [...stored, current], at: 1 });
+
+  expect(state.jobs.map(job => [job.file.name, job.status, job.archived])).toEqual([
+    ['a.png', 'failed', false],
+    ['b.png', 'generating', false],
+    ['c.png', 'completed', true],
+    ['d.png', 'staged', false],
+  ]);
+  expect(state.jobs[0].error).toBe('Upload interrupted by page reload');
+});
+
+test('syncing adopts another tab\'s list without treating uploads as interrupted', () => {
+  const uploading = createJob(file('a.png'), { status: 'uploading' });
+  const state = reducer(withJobs(createJob(file('b.png'))), { type: 'SYNC', jobs: [uploading] });
+
+  expect(state.jobs).toEqual([uploading]);
+});
+
+test('records when a job finishes', () => {
+  const job = createJob(file('a.png'));
+  let state = uploaded(job, 'j1');
+  expect(state.jobs[0].finishedAt).toBeNull();
+  state = reducer(state, { type: 'COMPLETED', jobId: 'j1', videoUrl: 'http://x/a.mp4', at: 1 });
+  expect(state.jobs[0].finishedAt).toEqual(expect.any(Number));
+});
+
+test('queueing freezes the per-file settings that will be sent', () => {
+  const job = createJob(file('a.png'));
+  let state = reducer(withJobs(job), { type: 'SET_OVERRIDES', id: job.id, overrides: { fps: 60 } });
+  state = reducer(state, {
+    type: 'QUEUE',
+    ids: [job.id],
+    defaults: { ...defaultGenerationSettings, duration: 8 },
+    at: 1,
+  });
+
+  expect(state.jobs[0].generation).toEqual({ ...defaultGenerationSettings, duration: 8, fps: 60 });
+});
+
+test('a retry resolves the settings again from the current defaults', () => {
+  const job = createJob(file('a.png'));
+  let state = reducer(withJobs(job), { type: 'SET_OVERRIDES', id: job.id, overrides: { fps: 60 } });
+  state = reducer(state, { type: 'QUEUE', ids: [job.id], defaults: defaultGenerationSettings, at: 1 });
+  state = reducer(state, { type: 'CANCELLED', id: job.id, at: 1 });
+  state = reducer(state, { type: 'RETRY', id: job.id, defaults: { ...defaultGenerationSettings, duration: 8 }, at: 1 });
+
+  expect(state.jobs[0].generation).toEqual({ ...defaultGenerationSettings, duration: 8, fps: 60 });
+});
+
+test('combines staged images into one sequence in place and splits it back', () => {
+  const [a, b, c, d] = ['a.png', 'b.png', 'c.png', 'd.png'].map(name => createJob(file(name)));
+  const sequence = createSequence([c, b]);
+  let state = reducer(withJobs(a, b, c, d), { type: 'CREATE_SEQUENCE', sequence });
+
+  expect(state.jobs.map(job => job.id)).toEqual([a.id, sequence.id, d.id]);
+  expect(sequence.frames?.map(frame => frame.file.name)).toEqual(['c.png', 'b.png']);
+  expect(sequence.uploadTotal).toBe(2);
+
+  state = reducer(state, { type: 'SPLIT_SEQUENCE', id: sequence.id, jobs: splitSequence(sequence) });
+  expect(state.jobs.map(job => job.id)).toEqual([a.id, c.id, b.id, d.id]);
+});
+
+test('only staged single images can join a sequence', () => {
+  const a = createJob(file('a.png'));
+  const b = createJob(file('b.png'));
+  const state = queued(a, b);
+  expect(reducer(state, { type: 'CREATE_SEQUENCE', sequence: createSequence([a, b]) })).toBe(state);
+});
+
+test('finds earlier videos generated from the same image', () => {
+  const source = file('a.png');
+  const first = createJob(source, { videoUrl: 'v1.mp4', createdAt: 1 });
+  const second = createJob(source, { videoUrl: 'v2.mp4', createdAt: 2 });
+  const pending = createJob(source, { createdAt: 3 });
+  const unrelated = createJob(file('b.png'), { videoUrl: 'v3.mp4' });
+
+  expect(otherGenerations(first, [first, second, pending, unrelated]).map(job => job.id)).toEqual([second.id]);
+});
+
+test('reports progress for the batch in flight only', () => {
+  const earlier = createJob(file('a.png'), { status: 'completed', createdAt: 1, finishedAt: 2 });
+  const done = createJob(file('b.png'), { status: 'completed', createdAt: 3, finishedAt: 5 });
+  const failed = createJob(file('c.png'), { status: 'failed', createdAt: 3, finishedAt: 6 });
+  const halfway = createJob(file('d.png'), { status: 'generating', progress: 50, createdAt: 3 });
+  const waiting = createJob(file('e.png'), { status: 'queued', createdAt: 4 });
+
+  expect(batchProgress([earlier, done, failed, halfway, waiting])).toEqual({ done: 2, total: 4, fraction: 2.5 / 4 });
+  expect(batchProgress([earlier, done, failed])).toBeNull();
+});
+
+test('records when each phase of a job starts, at the time the action carries', () => {
+  const job = createJob(file('a.png'));
+  let state = reducer(withJobs(job), { type: 'QUEUE', ids: [job.id], defaults: defaultGenerationSettings, at: 100 });
+  state = reducer(state, { type: 'UPLOAD_STARTED', ids: [job.id], at: 200 });
+  state = reducer(state, { type: 'UPLOAD_SUCCEEDED', uploads: [{ clientId: job.id, jobId: 'server-1' }], at: 300 });
+  state = reducer(state, { type: 'GENERATION_STARTED', jobId: 'server-1', at: 400 });
+  state = reducer(state, { type: 'GENERATION_STARTED', jobId: 'server-1', at: 450 });
+  state = reducer(state, { type: 'PROGRESS', jobId: 'server-1', value: 10, at: 500 });
+  state = reducer(state, { type: 'PROGRESS', jobId: 'server-1', value: 20, at: 550 });
+  state = reducer(state, { type: 'COMPLETED', jobId: 'server-1', videoUrl: 'http://x/a.mp4', at: 600 });
+
+  expect(state.jobs[0].timings).toEqual({
+    queuedAt: 100,
+    uploadStartedAt: 200,
+    uploadedAt: 300,
+    startedAt: 400,
+    firstProgressAt: 500,
+    completedAt: 600,
+  });
+  expect(state.jobs[0].finishedAt).toBe(600);
+});
+
+test('a retry starts the timings over', () => {
+  const job = createJob(file('a.png'));
+  let state = reducer(uploaded(job, 'server-1'), { type: 'CANCELLED', id: job.id, at: 2 });
+  state = reducer(state, { type: 'RETRY', id: job.id, defaults: defaultGenerationSettings, at: 3 });
+  expect(state.jobs[0].timings).toEqual({ ...emptyTimings, queuedAt: 3 });
+});
@@ -0,0 +1,526 @@
+import { GenerationOverrides, GenerationSettings, resolveGenerationSettings } from './generation';
+import { createId } from './ids';
+import { DEFAULT_HOLD, SequenceFrame } from './sequence';
+
+export type JobStatus =
+  | 'rejected'
+  | 'staged'
+  | 'queued'
+  | 'uploading'
+  | 'generating'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+// When each phase of a job began, as seen by this client. Reset by a retry.
+export interface JobTimings {
+  queuedAt: number | null;
+  uploadStartedAt: number | null;
+  uploadedAt: number | null;
+  // When the start command went out to the server.
+  startedAt: number | null;
+  firstProgressAt: number | null;
+  completedAt: number | null;
+}
+
+export const emptyTimings: JobTimings = {
+  queuedAt: null,
+  uploadStartedAt: null,
+  uploadedAt: null,
+  startedAt: null,
+  firstProgressAt: null,
+  completedAt: null,
+};
+
+export interface Job {
+  id: string;
+  jobId: string | null;
+  // For a sequence, the first frame's file; the frames carry the rest.
+  file: File;
+  thumbnail: string | null;
+  width: number | null;
+  height: number | null;
+  status: JobStatus;
+  uploadedBytes: number;
+  // Size of what actually goes over the wire, which differs from file.size
+  // once the image has been downscaled or rotated.
+  uploadTotal: number;
+  progress: number;
+  videoUrl: string | null;
+  // Length of the finished video in seconds, once a player has loaded it.
+  videoDuration: number | null;
+  error: string | null;
+  // Set by the user on a staged job; merged over the panel defaults.
+  overrides: GenerationOverrides | null;
+  // What was actually sent with start_processing.
+  generation: GenerationSettings | null;
+  // Set for sequence jobs, which turn several images into one video.
+  frames: SequenceFrame[] | null;
+  createdAt: number;
+  finishedAt: number | null;
+  timings: JobTimings;
+  // Finished jobs restored from a previous session only show up in history.
+  archived: boolean;
+}
+
+// Allowed status changes. Anything else is a stale or out-of-order event
+// (e.g. a progress frame for a job the user already cancelled) and is ignored.
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  rejected: [],
+  staged: ['queued'],
+  queued: ['uploading', 'cancelled'],
+  uploading: ['generating', 'failed', 'cancelled'],
+  generating: ['generating', 'completed', 'failed', 'cancelled'],
+  completed: [],
+  failed: ['queued'],
+  cancelled: ['queued'],
+};
+
+export const canTransition = (from: JobStatus, to: JobStatus) => TRANSITIONS[from].includes(to);
+
+export const isActive = (job: Job) => job.status === 'uploading' || job.status === 'generating';
+export const isFinished = (job: Job) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+export const canCancel = (job: Job) => canTransition(job.status, 'cancelled');
+export const canRetry = (job: Job) => job.status !== 'staged' && canTransition(job.status, 'queued');
+export const canRemove = (job: Job) => !isActive(job) && job.status !== 'queued';
+export const isSequence = (job: Job) => job.frames !== null;
+
+export const jobLabel = (job: Job) =>
+  job.frames ? `Sequence of ${job.frames.length} images` : job.file.name;
+
+// The element id a job is rendered under, wherever it is shown.
+export const jobAnchor = (id: string) => `job-${id}`;
+
+const sameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+// Other finished videos made from the same source image, newest first.
+export const otherGenerations = (job: Job, jobs: Job[]) =>
+  jobs
+    .filter(other => other.id !== job.id && other.videoUrl && !isSequence(other) && !isSequence(job))
+    .filter(other => sameFile(other.file, job.file))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+export interface BatchProgress {
+  done: number;
+  total: number;
+  // Overall progress from 0 to 1, counting each job's generation progress.
+  fraction: number;
+}
+
+// Progress of the jobs currently being worked on. A batch runs from the
+// oldest job still pending until nothing is left, so jobs that finished
+// before it started do not count towards it.
+export function batchProgress(jobs: Job[]): BatchProgress | null {
+  const current = jobs.filter(job => !job.archived);
+  const pending = current.filter(job => job.status === 'queued' || isActive(job));
+  if (pending.length === 0) {
+    return null;
+  }
+  const start = Math.min(...pending.map(job => job.createdAt));
+  const done = current.filter(job => isFinished(job) && job.finishedAt !== null && job.finishedAt >= start).length;
+  const total = done + pending.length;
+  const pendingProgress = pending.reduce((sum, job) => sum + job.progress / 100, 0);
+  return { done, total, fraction: (done + pendingProgress) / total };
+}
+
+export const actionTypes = {
+  HYDRATE: 'HYDRATE',
+  SYNC: 'SYNC',
+  ADD_FILES: 'ADD_FILES',
+  REMOVE: 'REMOVE',
+  MOVE: 'MOVE',
+  SET_OVERRIDES: 'SET_OVERRIDES',
+  CREATE_SEQUENCE: 'CREATE_SEQUENCE',
+  UPDATE_FRAMES: 'UPDATE_FRAMES',
+  SPLIT_SEQUENCE: 'SPLIT_SEQUENCE',
+  QUEUE: 'QUEUE',
+  UPLOAD_STARTED: 'UPLOAD_STARTED',
+  UPLOAD_PROGRESS: 'UPLOAD_PROGRESS',
+  UPLOAD_SUCCEEDED: 'UPLOAD_SUCCEEDED',
+  UPLOAD_FAILED: 'UPLOAD_FAILED',
+  PROGRESS: 'PROGRESS',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+  RETRY: 'RETRY',
+  VIDEO_METADATA: 'VIDEO_METADATA',
+  GENERATION_STARTED: 'GENERATION_STARTED',
+} as const;
+
+type ActionType = typeof actionTypes;
+
+// Actions that change a job's status or timings carry the time they
+// happened, so the reducer stays pure and every tab records the same times.
+export type JobAction =
+  | {
+      type: ActionType['HYDRATE'];
+      jobs: Job[];
+      at: number;
+    }
+  | {
+      type: ActionType['SYNC'];
+      jobs: Job[];
+    }
+  | {
+      type: ActionType['ADD_FILES'];
+      jobs: Job[];
+    }
+  | {
+      type: ActionType['REMOVE'];
+      id: string;
+    }
+  | {
+      type: ActionType['MOVE'];
+      id: string;
+      offset: -1 | 1;
+    }
+  | {
+      type: ActionType['SET_OVERRIDES'];
+      id: string;
+      overrides: GenerationOverrides | null;
+    }
+  | {
+      type: ActionType['CREATE_SEQUENCE'];
+      sequence: Job;
+    }
+  | {
+      type: ActionType['UPDATE_FRAMES'];
+      id: string;
+      frames: SequenceFrame[];
+    }
+  | {
+      type: ActionType['SPLIT_SEQUENCE'];
+      id: string;
+      jobs: Job[];
+    }
+  | {
+      type: ActionType['QUEUE'];
+      ids: string[];
+      defaults: GenerationSettings;
+      at: number;
+    }
+  | {
+      type: ActionType['UPLOAD_STARTED'];
+      ids: string[];
+      at: number;
+    }
+  | {
+      type: ActionType['UPLOAD_PROGRESS'];
+      id: string;
+      uploadedBytes: number;
+      uploadTotal: number;
+    }
+  | {
+      type: ActionType['UPLOAD_SUCCEEDED'];
+      uploads: { clientId: string; jobId: string }[];
+      at: number;
+    }
+  | {
+      type: ActionType['UPLOAD_FAILED'];
+      ids: string[];
+      error: string;
+      at: number;
+    }
+  | {
+      type: ActionType['PROGRESS'];
+      jobId: string;
+      value: number;
+      at: number;
+    }
+  | {
+      type: ActionType['COMPLETED'];
+      jobId: string;
+      videoUrl: string;
+      at: number;
+    }
+  | {
+      type: ActionType['FAILED'];
+      jobId: string;
+      error: string;
+      at: number;
+    }
+  | {
+      type: ActionType['CANCELLED'];
+      id: string;
+      at: number;
+    }
+  | {
+      type: ActionType['RETRY'];
+      id: string;
+      defaults: GenerationSettings;
+      at: number;
+    }
+  | {
+      type: ActionType['VIDEO_METADATA'];
+      id: string;
+      duration: number;
+    }
+  | {
+      type: ActionType['GENERATION_STARTED'];
+      jobId: string;
+      at: number;
+    };
+
+export interface JobsState {
+  jobs: Job[];
+}
+
+export const initialJobsState: JobsState = { jobs: [] };
+
+export function createJob(file: File, details: Partial<Job> = {}): Job {
+  return {
+    id: createId(),
+    jobId: null,
+    file,
+    thumbnail: null,
+    width: null,
+    height: null,
+    status: 'staged',
+    uploadedBytes: 0,
+    uploadTotal: file.size,
+    progress: 0,
+    videoUrl: null,
+    videoDuration: null,
+    error: null,
+    overrides: null,
+    generation: null,
+    frames: null,
+    createdAt: Date.now(),
+    finishedAt: null,
+    timings: emptyTimings,
+    archived: false,
+    ...details,
+  };
+}
+
+// Builds one staged sequence job out of staged single-image jobs, in the
+// order given.
+export function createSequence(jobs: Job[]): Job {
+  const frames = jobs.map(job => ({
+    id: job.id,
+    file: job.file,
+    thumbnail: job.thumbnail,
+    width: job.width,
+    height: job.height,
+    hold: DEFAULT_HOLD,
+    transition: 'crossfade' as const,
+  }));
+  const [first] = jobs;
+  return createJob(first.file, {
+    thumbnail: first.thumbnail,
+    width: first.width,
+    height: first.height,
+    uploadTotal: jobs.reduce((total, job) => total + job.file.size, 0),
+    frames,
+  });
+}
+
+export const splitSequence = (job: Job): Job[] =>
+  (job.frames || []).map(frame =>
+    createJob(frame.file, { id: frame.id, thumbnail: frame.thumbnail, width: frame.width, height: frame.height })
+  );
+
+const transition = (
+  state: JobsState,
+  matches: (job: Job) => boolean,
+  to: JobStatus,
+  at: number,
+  update: (job: Job) => Partial<Job> = () => ({})
+): JobsState => ({
+  ...state,
+  jobs: state.jobs.map(job => {
+    if (!matches(job) || !canTransition(job.status, to)) {
+      return job;
+    }
+    const next = { ...job, ...update(job), status: to };
+    return { ...next, finishedAt: isFinished(next) ? at : null };
+  }),
+});
+
+// A stored job comes back from a previous page load. Uploads cannot pick up
+// where they were (the request died with the page), so they are failed and
+// can be retried; the chunked upload then resumes from the server's offset.
+const restoreJob = (stored: Job, at: number): Job => {
+  // Records saved before generation settings existed lack these fields.
+  const job = {
+    ...stored,
+    overrides: stored.overrides ?? null,
+    generation: stored.generation ?? null,
+    frames: stored.frames ?? null,
+    videoDuration: stored.videoDuration ?? null,
+    timings: stored.timings ?? emptyTimings,
+  };
+  if (job.status === 'queued' || job.status === 'uploading') {
+    return { ...job, status: 'failed', error: 'Upload interrupted by page reload', finishedAt: at };
+  }
+  return isFinished(job) ? { ...job, archived: true } : job;
+};
+
+export const reducer = (state: JobsState, action: JobAction): JobsState => {
+  switch (action.type) {
+    case 'HYDRATE': {
+      const known = new Set(state.jobs.map(job => job.id));
+      const restored = action.jobs.filter(job => !known.has(job.id)).map(job => restoreJob(job, action.at));
+      return { ...state, jobs: [...restored, ...state.jobs] };
+    }
+
+    // Adopts another tab's job list as it stands, in-flight uploads included.
+    case 'SYNC':
+      return { ...state, jobs: action.jobs };
+
+    case 'ADD_FILES':
+      return { ...state, jobs: [...state.jobs, ...action.jobs] };
+
+    case 'REMOVE':
+      return {
+        ...state,
+        jobs: state.jobs.filter(job => job.id !== action.id || !canRemove(job)),
+      };
+
+    case 'MOVE': {
+      // Reordering only applies within the staging area, so the neighbour
+      // swapped with is the next staged job in that direction.
+      const staged = state.jobs.map((job, index) => (job.status === 'staged' ? index : -1)).filter(index => index >= 0);
+      const position = staged.findIndex(index => state.jobs[index].id === action.id);
+      const target = staged[position + action.offset];
+      if (position === -1 || target === undefined) {
+        return state;
+      }
+      const jobs = [...state.jobs];
+      [jobs[staged[position]], jobs[target]] = [jobs[target], jobs[staged[position]]];
+      return { ...state, jobs };
+    }
+
+    case 'SET_OVERRIDES':
+      return {
+        ...state,
+        jobs: state.jobs.map(job =>
+          job.id === action.id && job.status === 'staged' ? { ...job, overrides: action.overrides } : job
+        ),
+      };
+
+    case 'CREATE_SEQUENCE': {
+      const ids = new Set((action.sequence.frames || []).map(frame => frame.id));
+      const members = state.jobs.filter(job => ids.has(job.id));
+      if (members.length !== ids.size || members.some(job => job.status !== 'staged' || isSequence(job))) {
+        return state;
+      }
+      // The sequence takes the place of its first image in the list.
+      const at = state.jobs.findIndex(job => ids.has(job.id));
+      const rest = state.jobs.filter(job => !ids.has(job.id));
+      rest.splice(at, 0, action.sequence);
+      return { ...state, jobs: rest };
+    }
+
+    case 'UPDATE_FRAMES':
+      return {
+        ...state,
+        jobs: state.jobs.map(job =>
+          job.id === action.id && job.status === 'staged' && isSequence(job) ? { ...job, frames: action.frames } : job
+        ),
+      };
+
+    case 'SPLIT_SEQUENCE': {
+      const at = state.jobs.findIndex(job => job.id === action.id);
+      if (at === -1 || state.jobs[at].status !== 'staged' || !isSequence(state.jobs[at])) {
+        return state;
+      }
+      const jobs = [...state.jobs];
+      jobs.splice(at, 1, ...action.jobs);
+      return { ...state, jobs };
+    }
+
+    case 'QUEUE':
+      return transition(state, job => action.ids.includes(job.id), 'queued', action.at, job => ({
+        generation: resolveGenerationSettings(action.defaults, job.overrides),
+        timings: { ...emptyTimings, queuedAt: action.at },
+      }));
+
+    case 'UPLOAD_STARTED':
+      return transition(state, job => action.ids.includes(job.id), 'uploading', action.at, job => ({
+        uploadedBytes: 0,
+        progress: 0,
+        error: null,
+        timings: { ...job.timings, uploadStartedAt: action.at },
+      }));
+
+    case 'UPLOAD_PROGRESS':
+      return {
+        ...state,
+        jobs: state.jobs.map(job =>
+          job.id === action.id && job.status === 'uploading'
+            ? { ...job, uploadedBytes: action.uploadedBytes, uploadTotal: action.uploadTotal }
+            : job
+        ),
+      };
+
+    case 'UPLOAD_SUCCEEDED': {
+      const jobIds = new Map(action.uploads.map(upload => [upload.clientId, upload.jobId]));
+      return transition(state, job => jobIds.has(job.id), 'generating', action.at, job => ({
+        jobId: jobIds.get(job.id) ?? null,
+        uploadedBytes: job.uploadTotal,
+        timings: { ...job.timings, uploadedAt: action.at },
+      }));
+    }
+
+    case 'UPLOAD_FAILED':
+      return transition(state, job => action.ids.includes(job.id), 'failed', action.at, () => ({
+        error: action.error,
+      }));
+
+    case 'PROGRESS':
+      return transition(state, job => job.jobId === action.jobId, 'generating', action.at, job => ({
+        progress: action.value,
+        timings: job.timings.firstProgressAt !== null ? job.timings : { ...job.timings, firstProgressAt: action.at },
+      }));
+
+    case 'COMPLETED':
+      return transition(state, job => job.jobId === action.jobId, 'completed', action.at, job => ({
+        progress: 100,
+        videoUrl: action.videoUrl,
+        timings: { ...job.timings, completedAt: action.at },
+      }));
+
+    case 'FAILED':
+      return transition(state, job => job.jobId === action.jobId, 'failed', action.at, () => ({
+        error: action.error,
+      }));
+
+    case 'CANCELLED':
+      return transition(state, job => job.id === action.id, 'cancelled', action.at);
+
+    case 'RETRY':
+      // A retry is a fresh upload, so the old server job is forgotten. The
+      // job skips QUEUE, so its settings are resolved again here.
+      return transition(state, job => job.id === action.id, 'queued', action.at, job => ({
+        generation: resolveGenerationSettings(action.defaults, job.overrides),
+        jobId: null,
+        uploadedBytes: 0,
+        progress: 0,
+        videoUrl: null,
+        videoDuration: null,
+        error: null,
+        timings: { ...emptyTimings, queuedAt: action.at },
+      }));
+
+    // Set once, so a repeated start command cannot move it forward.
+    case 'GENERATION_STARTED':
+      return {
+        ...state,
+        jobs: state.jobs.map(job =>
+          job.jobId === action.jobId && job.status === 'generating' && job.timings.startedAt === null
+            ? { ...job, timings: { ...job.timings, startedAt: action.at } }
+            : job
+        ),
+      };
+
+    case 'VIDEO_METADATA':
+      return {
+        ...state,
+        jobs: state.jobs.map(job =>
+          job.id === action.id && job.videoDuration !== action.duration ? { ...job, videoDuration: action.duration } : job
+        ),
+      };
+  }
+};
@@ -0,0 +1,48 @@
+import { clearDiagnostics, exportDiagnostics, getDiagnostics } from './diagnostics';
+import { createLogger, shouldPrint } from './logger';
+
+beforeEach(() => {
+  clearDiagnostics();
+});
+
+test('prints only what clears the threshold', () => {
+  expect(shouldPrint('debug', 'warn')).toBe(false);
+  expect(shouldPrint('warn', 'warn')).toBe(true);
+  expect(shouldPrint('error', 'warn')).toBe(true);
+  expect(shouldPrint('error', 'silent')).toBe(false);
+});
+
+test('records every level for the diagnostics panel, whatever is printed', () => {
+  const printDebug = jest.spyOn(console, 'debug').mockImplementation(() => {});
+  const log = createLogger('ws');
+  log.frame('in', { type: 'pong' });
+  log.info('Connected');
+
+  expect(getDiagnostics().map(entry => `${entry.source}:${entry.level}:${entry.message}`)).toEqual([
+    'ws:debug:pong',
+    'ws:info:Connected',
+  ]);
+  expect(printDebug).not.toHaveBeenCalled();
+  printDebug.mockRestore();
+});
+
+test('keeps tokens out of logged frames', () => {
+  const init = { type: 'init', token: 'abc.def' };
+  createLogger('ws').frame('out', init);
+
+  const [entry] = getDiagnostics();
+  expect(entry).toMatchObject({ direction: 'out', message: 'init', detail: { type: 'init', token: '[redacted]' } });
+});
+
+test('exports errors and events as plain JSON', () => {
+  const log = createLogger('app');
+  log.error('Upload failed', new Error('network down'));
+  log.error('Socket error', new Event('error'));
+
+  const exported = JSON.parse(exportDiagnostics({ backend: { name: 'Default' } }));
+  expect(exported.backend).toEqual({ name: 'Default' });
+  expect(exported.entries.map((entry: { detail: unknown }) => entry.detail)).toEqual([
+    { name: 'Error', message: 'network down' },
+    { event: 'error' },
+  ]);
+});
@@ -0,0 +1,39 @@
+import { DiagnosticLevel, NewDiagnostic, recordDiagnostic } from './diagnostics';
+import { LOG_LEVEL } from '../config';
+
+const LEVEL_ORDER: DiagnosticLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const shouldPrint = (level: DiagnosticLevel, threshold: DiagnosticLevel | 'silent') =>
+  threshold !== 'silent' && LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(threshold);
+
+export interface Logger {
+  debug(message: string, detail?: unknown): void;
+  info(message: string, detail?: unknown): void;
+  warn(message: string, detail?: unknown): void;
+  error(message: string, detail?: unknown): void;
+  // A protocol frame received from or sent to the server.
+  frame(direction: 'in' | 'out', frame: { type: string }): void;
+}
+
+// Everything goes to the diagnostics timeline; only what clears LOG_LEVEL
+// is printed to the console as well.
+export function createLogger(source: string): Logger {
+  const log = (entry: Omit<NewDiagnostic, 'source'>) => {
+    recordDiagnostic({ ...entry, source });
+    if (shouldPrint(entry.level, LOG_LEVEL)) {
+      const print = entry.level === 'debug' ? console.debug : console[entry.level];
+      print(`[${source}] ${entry.message}`, ...(entry.detail === undefined ? [] : [entry.detail]));
+    }
+  };
+  return {
+    debug: (message, detail) => log({ level: 'debug', message, detail }),
+    info: (message, detail) => log({ level: 'info', message, detail }),
+    warn: (message, detail) => log({ level: 'warn', message, detail }),
+    error: (message, detail) => log({ level: 'error', message, detail }),
+    frame: (direction, frame) => log({ level: 'debug', direction, message: frame.type, detail: redactFrame(frame) }),
+  };
+}
+
+// The init frame carries the access token, which has no place in a log
+// that gets attached to bug reports.
+export const redactFrame = (frame: object) => ('token' in frame ? { ...frame, token: '[redacted]' } : frame);
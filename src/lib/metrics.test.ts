@@ -0,0 +1,89 @@
+import { Job, createJob, emptyTimings } from './jobs';
+import {
+  Metric,
+  addMetricsSink,
+  batchRemaining,
+  estimateRemaining,
+  jobAverages,
+  phaseDurations,
+  reportWebVital,
+  sessionStats,
+} from './metrics';
+
+const job = (details: Partial<Job>) =>
+  createJob(new File(['x'], 'a.png', { type: 'image/png' }), { uploadTotal: 1000, ...details });
+
+const done = (queuedAt: number, generation: number) =>
+  job({
+    status: 'completed',
+    timings: {
+      ...emptyTimings,
+      queuedAt,
+      uploadStartedAt: queuedAt,
+      uploadedAt: queuedAt + 100,
+      startedAt: queuedAt + 100,
+      completedAt: queuedAt + 100 + generation,
+    },
+  });
+
+test('splits a job into its phases', () => {
+  expect(phaseDurations(done(0, 5000).timings)).toEqual({ upload: 100, wait: null, generation: 5000, total: 5100 });
+});
+
+test('estimates from reported progress before averages', () => {
+  const generating = job({
+    status: 'generating',
+    progress: 25,
+    timings: { ...emptyTimings, queuedAt: 0, startedAt: 1000, firstProgressAt: 2000 },
+  });
+  expect(estimateRemaining(generating, { generation: 60000, uploadRate: null }, 11000)).toBe(30000);
+});
+
+test('falls back on averages until progress arrives', () => {
+  const averages = jobAverages([done(0, 20000), done(0, 40000)]);
+  expect(averages).toEqual({ generation: 30000, uploadRate: 10 });
+
+  const started = job({ status: 'generating', timings: { ...emptyTimings, startedAt: 1000 } });
+  expect(estimateRemaining(started, averages, 11000)).toBe(20000);
+  expect(estimateRemaining(job({ status: 'queued' }), averages, 0)).toBe(30100);
+  expect(estimateRemaining(job({ status: 'queued' }), { generation: null, uploadRate: null }, 0)).toBeNull();
+  expect(estimateRemaining(done(0, 1000), averages, 0)).toBeNull();
+});
+
+test('a batch takes as long as its slowest job', () => {
+  const averages = { generation: 30000, uploadRate: 10 };
+  const jobs = [
+    job({ status: 'generating', timings: { ...emptyTimings, startedAt: 0 } }),
+    job({ status: 'generating', timings: { ...emptyTimings, startedAt: 20000 } }),
+    done(0, 1000),
+  ];
+  expect(batchRemaining(jobs, averages, 25000)).toBe(25000);
+  expect(batchRemaining([done(0, 1000)], averages, 25000)).toBeNull();
+});
+
+test('session stats leave out jobs from earlier sessions', () => {
+  const failed = job({ status: 'failed', timings: { ...emptyTimings, queuedAt: 60000 } });
+  const stats = sessionStats([done(0, 1000), done(60000, 20000), done(60000, 40000), failed], 60000, 180000);
+  expect(stats).toEqual({ completed: 2, failed: 1, averageGeneration: 30000, throughput: 1, failureRate: 1 / 3 });
+  expect(sessionStats([done(0, 1000)], 60000, 180000)).toEqual({
+    completed: 0,
+    failed: 0,
+    averageGeneration: null,
+    throughput: null,
+    failureRate: null,
+  });
+});
+
+test('web vitals go to every sink', () => {
+  const received: Metric[] = [];
+  const remove = addMetricsSink(metric => received.push(metric));
+  reportWebVital({ name: 'CLS', value: 0.02 });
+  reportWebVital({ name: 'LCP', value: 1800 });
+  remove();
+  reportWebVital({ name: 'FID', value: 12 });
+
+  expect(received.map(({ name, value, unit }) => [name, value, unit])).toEqual([
+    ['web_vitals.CLS', 0.02, 'score'],
+    ['web_vitals.LCP', 1800, 'ms'],
+  ]);
+});
@@ -0,0 +1,181 @@
+import { Job, JobTimings, isActive } from './jobs';
+import { createLogger } from './logger';
+
+export interface Metric {
+  name: string;
+  value: number;
+  unit: 'ms' | 'count' | 'score';
+  timestamp: number;
+  tags?: Record<string, string>;
+}
+
+export type MetricsSink = (metric: Metric) => void;
+
+const log = createLogger('metrics');
+
+// Every metric lands in the diagnostics timeline; further sinks can forward
+// them elsewhere.
+const sinks: MetricsSink[] = [metric => log.debug(`${metric.name} = ${metric.value} ${metric.unit}`, metric)];
+
+export function addMetricsSink(sink: MetricsSink) {
+  sinks.push(sink);
+  return () => {
+    const index = sinks.indexOf(sink);
+    if (index > -1) {
+      sinks.splice(index, 1);
+    }
+  };
+}
+
+export function recordMetric(metric: Omit<Metric, 'timestamp'>) {
+  const recorded = { ...metric, timestamp: Date.now() };
+  sinks.forEach(sink => sink(recorded));
+}
+
+// Posts each metric to a collector with sendBeacon, which survives the page
+// being closed.
+export const beaconSink =
+  (url: string, send: (url: string, body: string) => boolean = (to, body) => navigator.sendBeacon(to, body)): MetricsSink =>
+  metric => {
+    send(url, JSON.stringify(metric));
+  };
+
+// For reportWebVitals. CLS is a unitless score; the others are times.
+export const reportWebVital = (metric: { name: string; value: number }) =>
+  recordMetric({ name: `web_vitals.${metric.name}`, value: metric.value, unit: metric.name === 'CLS' ? 'score' : 'ms' });
+
+const span = (from: number | null, to: number | null) => (from !== null && to !== null ? to - from : null);
+
+export const phaseDurations = (timings: JobTimings) => ({
+  upload: span(timings.uploadStartedAt, timings.uploadedAt),
+  // From handing the job to the server until it first reports progress.
+  wait: span(timings.startedAt, timings.firstProgressAt),
+  generation: span(timings.startedAt, timings.completedAt),
+  total: span(timings.queuedAt, timings.completedAt),
+});
+
+export function recordJobMetrics(job: Job) {
+  const tags = { kind: job.frames ? 'sequence' : 'image' };
+  if (job.status === 'failed') {
+    recordMetric({ name: 'job.failed', value: 1, unit: 'count', tags });
+    return;
+  }
+  if (job.status !== 'completed') {
+    return;
+  }
+  recordMetric({ name: 'job.completed', value: 1, unit: 'count', tags });
+  const durations = phaseDurations(job.timings);
+  (Object.keys(durations) as Array<keyof typeof durations>).forEach(phase => {
+    const value = durations[phase];
+    if (value !== null) {
+      recordMetric({ name: `job.${phase}_time`, value, unit: 'ms', tags });
+    }
+  });
+}
+
+export interface JobAverages {
+  // Milliseconds from start command to finished video.
+  generation: number | null;
+  // Bytes per millisecond.
+  uploadRate: number | null;
+}
+
+// Learned from every completed job on record, history included, so the
+// first estimates of a session are not guesses.
+export function jobAverages(jobs: Job[]): JobAverages {
+  const generations: number[] = [];
+  let uploadedBytes = 0;
+  let uploadTime = 0;
+  jobs
+    .filter(job => job.status === 'completed')
+    .forEach(job => {
+      const { upload, generation } = phaseDurations(job.timings);
+      if (generation !== null) {
+        generations.push(generation);
+      }
+      if (upload !== null && upload > 0) {
+        uploadedBytes += job.uploadTotal;
+        uploadTime += upload;
+      }
+    });
+  return {
+    generation: generations.length > 0 ? generations.reduce((sum, value) => sum + value, 0) / generations.length : null,
+    uploadRate: uploadTime > 0 ? uploadedBytes / uploadTime : null,
+  };
+}
+
+// Milliseconds until the job's video should be ready, or null without
+// anything to go on. Progress reported for the job itself beats averages.
+export function estimateRemaining(job: Job, averages: JobAverages, now: number): number | null {
+  const { timings } = job;
+  const generationLeft = (started: number | null) => {
+    if (job.progress > 0 && started !== null && timings.firstProgressAt !== null) {
+      const rate = job.progress / Math.max(now - started, 1);
+      return (100 - job.progress) / rate;
+    }
+    if (averages.generation === null) {
+      return null;
+    }
+    return Math.max(averages.generation - (started !== null ? now - started : 0), 0);
+  };
+
+  switch (job.status) {
+    case 'queued': {
+      const generation = generationLeft(null);
+      return averages.uploadRate !== null && generation !== null ? job.uploadTotal / averages.uploadRate + generation : null;
+    }
+    case 'uploading': {
+      const elapsed = timings.uploadStartedAt !== null ? now - timings.uploadStartedAt : 0;
+      const rate = job.uploadedBytes > 0 && elapsed > 0 ? job.uploadedBytes / elapsed : averages.uploadRate;
+      const generation = generationLeft(null);
+      return rate !== null && generation !== null ? (job.uploadTotal - job.uploadedBytes) / rate + generation : null;
+    }
+    case 'generating':
+      return generationLeft(timings.startedAt ?? timings.uploadedAt);
+    default:
+      return null;
+  }
+}
+
+// The server works on a batch's jobs side by side, so the batch is done
+// when its slowest job is.
+export function batchRemaining(jobs: Job[], averages: JobAverages, now: number): number | null {
+  const estimates = jobs
+    .filter(job => !job.archived && (job.status === 'queued' || isActive(job)))
+    .map(job => estimateRemaining(job, averages, now));
+  if (estimates.length === 0 || estimates.some(estimate => estimate === null)) {
+    return null;
+  }
+  return Math.max(...(estimates as number[]));
+}
+
+export const SESSION_STARTED = Date.now();
+
+export interface SessionStats {
+  completed: number;
+  failed: number;
+  averageGeneration: number | null;
+  // Videos per minute since the first job of the session was queued.
+  throughput: number | null;
+  // Share of finished jobs that failed; cancelled ones do not count.
+  failureRate: number | null;
+}
+
+// Jobs queued since the page loaded. Uploads that a reload cut short are
+// failed on restore, but they belong to the session that started them.
+export const inSession = (job: Job, since: number) => job.timings.queuedAt !== null && job.timings.queuedAt >= since;
+
+export function sessionStats(jobs: Job[], since: number, now: number): SessionStats {
+  const current = jobs.filter(job => inSession(job, since));
+  const finished = current.filter(job => job.status === 'completed' || job.status === 'failed');
+  const completed = finished.filter(job => job.status === 'completed');
+  const failed = finished.length - completed.length;
+  const elapsed = current.length > 0 ? now - Math.min(...current.map(job => job.timings.queuedAt as number)) : 0;
+  return {
+    completed: completed.length,
+    failed,
+    averageGeneration: jobAverages(completed).generation,
+    throughput: completed.length > 0 && elapsed > 0 ? completed.length / (elapsed / 60000) : null,
+    failureRate: finished.length > 0 ? failed / finished.length : null,
+  };
+}
@@ -0,0 +1,97 @@
+import { responseFields } from './api';
+import { MockBackend } from './mockBackend';
+import { uploadFile } from './upload';
+import { InboundMessage } from './protocol';
+import { ConnectionState, VideoGenSocket } from './videoGenSocket';
+import { defaultGenerationSettings } from './generation';
+
+const until = async (predicate: () => boolean) => {
+  for (let i = 0; i < 200 && !predicate(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 2));
+  }
+  expect(predicate()).toBe(true);
+};
+
+const setup = () => {
+  const backend = new MockBackend({ steps: 4, stepDelay: 1, latency: 0, sampleVideoUrl: '/mock/sample.mp4' });
+  const connect = () => {
+    const states: ConnectionState[] = [];
+    const messages: InboundMessage[] = [];
+    const client = new VideoGenSocket({ url: 'ws://mock/ws', createSocket: backend.createSocket, network: null });
+    client.on('state', state => states.push(state));
+    client.on('message', message => messages.push(message));
+    client.connect();
+    return { client, states, messages };
+  };
+  return { backend, connect };
+};
+
+const upload = (backend: MockBackend, name: string) =>
+  uploadFile({ clientId: 'c1', file: new File(['pixels'], name, { type: 'image/png' }) }, { client: backend.http });
+
+test('handshakes and turns away a second client', async () => {
+  const { connect } = setup();
+  const first = connect();
+  await until(() => first.client.state === 'established');
+
+  const second = connect();
+  await until(() => second.client.state === 'rejected');
+  expect(first.client.state).toBe('established');
+
+  first.client.dispose();
+  second.client.dispose();
+});
+
+test('scripts progress and completion for an uploaded image', async () => {
+  const { backend, connect } = setup();
+  const { client, messages } = connect();
+  await until(() => client.isEstablished);
+
+  const job = await upload(backend, 'a.png');
+  expect(job).toMatchObject({ clientId: 'c1', filename: 'a.png' });
+  client.send({ type: 'start_processing', jobId: job.jobId, filename: job.filename, settings: defaultGenerationSettings });
+  await until(() => messages.some(message => message.type === 'complete'));
+
+  expect(messages.map(message => (message.type === 'progress' ? message.value : message.type))).toEqual([
+    0, 25, 50, 75, 100, 'complete',
+  ]);
+  expect(messages[5]).toMatchObject({ job_id: job.jobId, video_url: '/mock/sample.mp4' });
+  client.dispose();
+});
+
+test('fails or errors jobs whose filename asks for it', async () => {
+  const { backend, connect } = setup();
+  const { client, messages } = connect();
+  await until(() => client.isEstablished);
+
+  const failing = await upload(backend, 'fail.png');
+  const erroring = await upload(backend, 'error.png');
+  client.send({ type: 'start_processing', jobId: erroring.jobId, filename: erroring.filename, settings: defaultGenerationSettings });
+  client.send({ type: 'start_processing', jobId: failing.jobId, filename: failing.filename, settings: defaultGenerationSettings });
+  await until(() => messages.some(message => message.type === 'failed'));
+
+  expect(messages[0]).toEqual({ type: 'error', message: 'Simulated server error', job_id: erroring.jobId, filename: 'error.png' });
+  expect(messages[messages.length - 1]).toEqual({ type: 'failed', job_id: failing.jobId, message: 'Simulated generation failure' });
+
+  const status = await backend.http({ method: 'GET', path: `/jobs/status?ids=${failing.jobId}` });
+  expect(responseFields(status.data).jobs).toEqual([
+    { job_id: failing.jobId, status: 'failed', progress: 50, message: 'Simulated generation failure' },
+  ]);
+  client.dispose();
+});
+
+test('only accepts tokens it issued', async () => {
+  const { backend } = setup();
+  const login = await backend.http({
+    method: 'POST',
+    path: '/auth/login',
+    body: JSON.stringify({ username: 'ana', password: 'pw' }),
+  });
+  const token = responseFields(login.data).access_token;
+  await expect(
+    backend.http({ method: 'GET', path: '/jobs/status?ids=', headers: { Authorization: `Bearer ${token}` } })
+  ).resolves.toMatchObject({ status: 200 });
+  await expect(
+    backend.http({ method: 'GET', path: '/jobs/status?ids=', headers: { Authorization: 'Bearer forged' } })
+  ).rejects.toMatchObject({ status: 401 });
+});
@@ -0,0 +1,416 @@
+import { HttpClient, HttpError, HttpRequest, HttpResponse } from './api';
+import { GenerationSettings } from './generation';
+import { InboundMessage, OutboundMessage, decodeOutbound } from './protocol';
+import { SocketFactory, SocketLike } from './videoGenSocket';
+
+export interface MockBackendOptions {
+  // Progress frames per job and the time between them.
+  steps?: number;
+  stepDelay?: number;
+  // Simulated network latency for HTTP requests.
+  latency?: number;
+  // Serves this file for every finished job instead of rendering one.
+  sampleVideoUrl?: string | null;
+  renderVideo?: (file: File, settings: GenerationSettings | null) => Promise<string>;
+}
+
+interface MockJob {
+  id: string;
+  filename: string;
+  file: File;
+  status: 'uploaded' | 'processing' | 'completed' | 'failed';
+  progress: number;
+  videoUrl: string | null;
+  message: string | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface MockUploadSession {
+  filename: string;
+  type: string;
+  chunks: Blob[];
+  received: number;
+}
+
+const SOCKET_OPEN = 1;
+const SOCKET_CLOSED = 3;
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request aborted', 'AbortError'));
+      return;
+    }
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+// Records a few seconds of the image slowly zooming in, so the player has a
+// real video to show. Needs canvas capture and MediaRecorder.
+export async function renderMockVideo(file: File, settings: GenerationSettings | null): Promise<string> {
+  if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement.prototype.captureStream !== 'function') {
+    throw new Error('This browser cannot record the mock video; set REACT_APP_MOCK_VIDEO_URL instead');
+  }
+  const image = await createImageBitmap(file);
+  const scale = Math.min(1, 640 / image.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  const recorder = new MediaRecorder(canvas.captureStream(settings?.fps ?? 30), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => chunks.push(event.data);
+  const stopped = new Promise(resolve => {
+    recorder.onstop = resolve;
+  });
+
+  // Recording runs in real time, so long clips are cut short.
+  const duration = Math.min(settings?.duration ?? 3, 5) * 1000;
+  const start = performance.now();
+  recorder.start();
+  await new Promise<void>(resolve => {
+    const draw = (now: number) => {
+      const t = Math.min(1, (now - start) / duration);
+      const zoom = 1 + 0.15 * t;
+      const width = canvas.width * zoom;
+      const height = canvas.height * zoom;
+      context.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+      if (t < 1) {
+        requestAnimationFrame(draw);
+      } else {
+        resolve();
+      }
+    };
+    requestAnimationFrame(draw);
+  });
+  recorder.stop();
+  await stopped;
+  return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+}
+
+class MockSocket implements SocketLike {
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  constructor(private readonly backend: MockBackend) {
+    setTimeout(() => {
+      if (this.readyState === 0) {
+        this.readyState = SOCKET_OPEN;
+        this.onopen?.(new Event('open'));
+      }
+    }, 0);
+  }
+
+  send(data: string) {
+    const frame = decodeOutbound(data);
+    if (frame) {
+      this.backend.receive(this, frame);
+    } else {
+      this.deliver({ type: 'error', message: 'Malformed command' });
+    }
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.readyState === SOCKET_CLOSED) {
+      return;
+    }
+    this.readyState = SOCKET_CLOSED;
+    this.backend.detach(this);
+    setTimeout(() => this.onclose?.(new CloseEvent('close', { code, reason })), 0);
+  }
+
+  deliver(frame: InboundMessage) {
+    setTimeout(() => {
+      if (this.readyState === SOCKET_OPEN) {
+        this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(frame) }));
+      }
+    }, 0);
+  }
+}
+
+// An in-memory stand-in for the generator backend: uploads, auth, the
+// WebSocket handshake and scripted progress. Like the real server it talks
+// to one WebSocket client at a time and turns a second one away.
+//
+// Filenames steer the script: one containing "fail" fails halfway through,
+// one containing "error" gets an error frame instead of any progress.
+export class MockBackend {
+  private readonly options: Required<Omit<MockBackendOptions, 'sampleVideoUrl'>> & { sampleVideoUrl: string | null };
+  private jobs: Record<string, MockJob> = {};
+  private sessions: Record<string, MockUploadSession> = {};
+  private tokens: string[] = [];
+  private refreshTokens: string[] = [];
+  private client: MockSocket | null = null;
+  private nextId = 1;
+
+  constructor(options: MockBackendOptions = {}) {
+    this.options = {
+      steps: 10,
+      stepDelay: 400,
+      latency: 50,
+      sampleVideoUrl: null,
+      renderVideo: renderMockVideo,
+      ...options,
+    };
+  }
+
+  readonly createSocket: SocketFactory = () => new MockSocket(this);
+
+  readonly http: HttpClient = async request => {
+    await delay(this.options.latency, request.signal);
+    const token = request.headers?.Authorization?.replace(/^Bearer /, '');
+    if (token && !this.tokens.includes(token)) {
+      throw new HttpError(401, `${request.method} ${request.path} failed with status 401`);
+    }
+    return this.route(request);
+  };
+
+  // Called by MockSocket for every frame the app sends.
+  receive(socket: MockSocket, frame: OutboundMessage) {
+    if (frame.type === 'init') {
+      if (frame.token && !this.tokens.includes(frame.token)) {
+        socket.deliver({ type: 'unauthorized', message: 'Invalid token' });
+        return;
+      }
+      if (this.client && this.client !== socket) {
+        socket.deliver({ type: 'error', message: 'Another client is currently connected' });
+        setTimeout(() => socket.close(1008, 'Only one client allowed'), 0);
+        return;
+      }
+      this.client = socket;
+      socket.deliver({ type: 'connection', status: 'established' });
+      return;
+    }
+    if (frame.type === 'ping') {
+      socket.deliver({ type: 'pong' });
+      return;
+    }
+    if (socket === this.client) {
+      this.command(frame);
+    }
+  }
+
+  detach(socket: MockSocket) {
+    if (this.client === socket) {
+      this.client = null;
+    }
+  }
+
+  private id(prefix: string) {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  private issueTokens() {
+    const accessToken = this.id('access');
+    const refreshToken = this.id('refresh');
+    this.tokens.push(accessToken);
+    this.refreshTokens.push(refreshToken);
+    return { access_token: accessToken, refresh_token: refreshToken, expires_in: 3600 };
+  }
+
+  private addJob(file: File, filename = file.name): MockJob {
+    const job: MockJob = {
+      id: this.id('job'),
+      filename,
+      file,
+      status: 'uploaded',
+      progress: 0,
+      videoUrl: null,
+      message: null,
+      timer: null,
+    };
+    this.jobs[job.id] = job;
+    return job;
+  }
+
+  private route(request: HttpRequest): HttpResponse {
+    const { method, path } = request;
+    const ok = (data: unknown, status = 200) => ({ status, data });
+    const notFound = () => {
+      throw new HttpError(404, `${method} ${path} failed with status 404`);
+    };
+
+    if (method === 'POST' && path === '/auth/login') {
+      const { username, password } = JSON.parse(request.body as string);
+      if (!username || !password) {
+        throw new HttpError(401, 'Invalid credentials');
+      }
+      return ok(this.issueTokens());
+    }
+    if (method === 'POST' && path === '/auth/refresh') {
+      const { refresh_token: refreshToken } = JSON.parse(request.body as string);
+      if (!this.refreshTokens.includes(refreshToken)) {
+        throw new HttpError(401, 'Invalid refresh token');
+      }
+      return ok(this.issueTokens());
+    }
+    if (method === 'POST' && path === '/upload') {
+      const form = request.body as FormData;
+      const files = form.getAll('files') as File[];
+      const clientIds = form.getAll('client_ids') as string[];
+      request.onUploadProgress?.(files.reduce((total, file) => total + file.size, 0));
+      const jobs = files.map((file, index) => {
+        const job = this.addJob(file);
+        return { job_id: job.id, filename: job.filename, client_id: clientIds[index] };
+      });
+      return ok({ jobs });
+    }
+    if (method === 'POST' && path === '/upload/sessions') {
+      const { filename, type } = JSON.parse(request.body as string);
+      const uploadId = this.id('upload');
+      this.sessions[uploadId] = { filename, type, chunks: [], received: 0 };
+      return ok({ upload_id: uploadId }, 201);
+    }
+    const session = path.match(/^\/upload\/sessions\/([\w-]+)(\/complete)?$/);
+    if (session) {
+      const upload = this.sessions[session[1]] || notFound();
+      if (method === 'GET') {
+        return ok({ received_bytes: upload.received });
+      }
+      if (method === 'PUT') {
+        const chunk = request.body as Blob;
+        upload.chunks.push(chunk);
+        upload.received += chunk.size;
+        request.onUploadProgress?.(chunk.size);
+        return ok({ received_bytes: upload.received });
+      }
+      if (session[2]) {
+        delete this.sessions[session[1]];
+        const job = this.addJob(new File(upload.chunks, upload.filename, { type: upload.type }));
+        return ok({ job_id: job.id, filename: job.filename });
+      }
+    }
+    if (method === 'POST' && path === '/commands') {
+      const command = decodeOutbound(request.body as string);
+      if (!command) {
+        throw new HttpError(400, `${method} ${path} failed with status 400`);
+      }
+      this.command(command);
+      return ok(null, 202);
+    }
+    if (method === 'GET' && path.startsWith('/jobs/status')) {
+      const ids = (path.split('ids=')[1] || '').split(',').filter(Boolean).map(decodeURIComponent);
+      const jobs = ids
+        .map(id => this.jobs[id])
+        .filter(Boolean)
+        .map(job => ({
+          job_id: job.id,
+          status: job.status,
+          progress: job.progress,
+          ...(job.videoUrl ? { video_url: job.videoUrl } : {}),
+          ...(job.message ? { message: job.message } : {}),
+        }));
+      return ok({ jobs });
+    }
+    return notFound();
+  }
+
+  private command(frame: OutboundMessage) {
+    switch (frame.type) {
+      case 'start_processing': {
+        const job = this.jobs[frame.jobId];
+        if (!job) {
+          this.emit({ type: 'error', message: `Unknown job ${frame.jobId}`, job_id: frame.jobId });
+          return;
+        }
+        this.run(job, frame.settings);
+        break;
+      }
+      case 'start_sequence': {
+        const first = frame.frames.length ? this.jobs[frame.frames[0].jobId] : undefined;
+        if (!first) {
+          this.emit({ type: 'error', message: 'Sequence has no uploaded frames', job_id: frame.jobId });
+          return;
+        }
+        const job: MockJob = { ...first, id: frame.jobId, filename: 'sequence', status: 'uploaded', timer: null };
+        this.jobs[job.id] = job;
+        this.run(job, frame.settings);
+        break;
+      }
+      case 'cancel_processing': {
+        const job = this.jobs[frame.jobId];
+        if (job?.timer) {
+          clearTimeout(job.timer);
+          job.timer = null;
+          job.status = 'failed';
+          job.message = 'Cancelled';
+        }
+        break;
+      }
+      case 'subscribe':
+        // Running jobs report to whichever client is connected, so there is
+        // nothing to re-attach; just catch the client up.
+        frame.jobIds.forEach(id => {
+          const job = this.jobs[id];
+          if (job?.status === 'completed' && job.videoUrl) {
+            this.emit({ type: 'complete', job_id: job.id, filename: job.filename, video_url: job.videoUrl });
+          } else if (job?.status === 'processing') {
+            this.emit({ type: 'progress', job_id: job.id, value: job.progress });
+          }
+        });
+        break;
+    }
+  }
+
+  private emit(frame: InboundMessage) {
+    this.client?.deliver(frame);
+  }
+
+  private run(job: MockJob, settings: GenerationSettings | null) {
+    if (job.filename.includes('error')) {
+      job.status = 'failed';
+      job.message = 'Simulated server error';
+      this.emit({ type: 'error', message: job.message, job_id: job.id, filename: job.filename });
+      return;
+    }
+
+    const { steps, stepDelay, sampleVideoUrl, renderVideo } = this.options;
+    // Rendering takes real time, so it runs alongside the scripted progress.
+    const video = sampleVideoUrl ? Promise.resolve(sampleVideoUrl) : renderVideo(job.file, settings);
+    video.catch(() => undefined);
+    job.status = 'processing';
+
+    const step = (index: number) => {
+      job.timer = null;
+      if (job.filename.includes('fail') && index > steps / 2) {
+        job.status = 'failed';
+        job.message = 'Simulated generation failure';
+        this.emit({ type: 'failed', job_id: job.id, message: job.message });
+        return;
+      }
+      if (index <= steps) {
+        job.progress = Math.round((index / steps) * 100);
+        this.emit({ type: 'progress', job_id: job.id, filename: job.filename, value: job.progress });
+        job.timer = setTimeout(() => step(index + 1), stepDelay);
+        return;
+      }
+      video.then(
+        url => {
+          job.status = 'completed';
+          job.videoUrl = url;
+          this.emit({ type: 'complete', job_id: job.id, filename: job.filename, video_url: url });
+        },
+        error => {
+          job.status = 'failed';
+          job.message = error instanceof Error ? error.message : 'Rendering failed';
+          this.emit({ type: 'failed', job_id: job.id, message: job.message });
+        }
+      );
+    };
+    step(0);
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  addNotification,
+  dismissAll,
+  dismissNotification,
+  getNotifications,
+  groupNotifications,
+  markAllRead,
+  subscribeNotifications,
+  unreadCount,
+} from './notifications';
+
+beforeEach(() => {
+  dismissAll();
+});
+
+test('keeps the newest first and persists the log', () => {
+  addNotification({ group: 'jobs', level: 'success', title: 'First', jobId: 'a' });
+  addNotification({ group: 'connection', level: 'error', title: 'Second' });
+
+  expect(getNotifications().map(notification => notification.title)).toEqual(['Second', 'First']);
+  expect(JSON.parse(localStorage.getItem('videogen.notifications')!)).toHaveLength(2);
+});
+
+test('counts unread entries until they are marked read', () => {
+  const listener = jest.fn();
+  const unsubscribe = subscribeNotifications(listener);
+  addNotification({ group: 'jobs', level: 'info', title: 'One' });
+  addNotification({ group: 'jobs', level: 'info', title: 'Two' });
+  expect(unreadCount(getNotifications())).toBe(2);
+
+  markAllRead();
+  expect(unreadCount(getNotifications())).toBe(0);
+  expect(listener).toHaveBeenCalledTimes(3);
+
+  // Nothing left to mark, so no one is told.
+  markAllRead();
+  expect(listener).toHaveBeenCalledTimes(3);
+  unsubscribe();
+});
+
+test('caps the log', () => {
+  for (let i = 0; i < 120; i++) {
+    addNotification({ group: 'jobs', level: 'info', title: `Job ${i}` });
+  }
+  expect(getNotifications()).toHaveLength(100);
+  expect(getNotifications()[0].title).toBe('Job 119');
+});
+
+test('dismisses one entry or all of them', () => {
+  addNotification({ group: 'jobs', level: 'info', title: 'Keep' });
+  addNotification({ group: 'jobs', level: 'info', title: 'Drop' });
+  dismissNotification(getNotifications()[0].id);
+  expect(getNotifications().map(notification => notification.title)).toEqual(['Keep']);
+
+  dismissAll();
+  expect(getNotifications()).toEqual([]);
+});
+
+test('groups job and connection events, leaving out empty groups', () => {
+  addNotification({ group: 'connection', level: 'info', title: 'Connected' });
+  addNotification({ group: 'jobs', level: 'success', title: 'Done' });
+  addNotification({ group: 'jobs', level: 'error', title: 'Broken' });
+
+  const groups = groupNotifications(getNotifications());
+  expect(groups.map(group => group.label)).toEqual(['Jobs', 'Connection']);
+  expect(groups[0].notifications.map(notification => notification.title)).toEqual(['Broken', 'Done']);
+
+  expect(groupNotifications(getNotifications().filter(notification => notification.group === 'jobs'))).toHaveLength(1);
+});
@@ -0,0 +1,74 @@
+import { Store } from './store';
+
+export type NotificationGroup = 'jobs' | 'connection';
+export type NotificationLevel = 'info' | 'success' | 'error';
+
+export interface AppNotification {
+  id: string;
+  timestamp: number;
+  group: NotificationGroup;
+  level: NotificationLevel;
+  title: string;
+  description?: string;
+  // The client-side id of the job the event is about, for click-through.
+  jobId?: string;
+  read: boolean;
+}
+
+export type NewNotification = Omit<AppNotification, 'id' | 'timestamp' | 'read'>;
+
+export const NOTIFICATION_GROUPS: Record<NotificationGroup, string> = {
+  jobs: 'Jobs',
+  connection: 'Connection',
+};
+
+const STORAGE_KEY = 'videogen.notifications';
+const MAX_NOTIFICATIONS = 100;
+
+// Newest first.
+const notifications = new Store<AppNotification[]>([], {
+  key: STORAGE_KEY,
+  parse: stored => (Array.isArray(stored) ? stored : []),
+});
+let nextId = 1;
+
+export function addNotification(notification: NewNotification) {
+  const timestamp = Date.now();
+  const entry = { ...notification, id: `${timestamp}-${nextId++}`, timestamp, read: false };
+  notifications.set([entry, ...notifications.get()].slice(0, MAX_NOTIFICATIONS));
+}
+
+export function markAllRead() {
+  const list = notifications.get();
+  if (list.some(notification => !notification.read)) {
+    notifications.set(list.map(notification => ({ ...notification, read: true })));
+  }
+}
+
+export function dismissNotification(id: string) {
+  notifications.set(notifications.get().filter(notification => notification.id !== id));
+}
+
+export function dismissAll() {
+  notifications.set([]);
+}
+
+export function getNotifications() {
+  return notifications.get();
+}
+
+export const subscribeNotifications = (listener: (notifications: AppNotification[]) => void) =>
+  notifications.subscribe(listener);
+
+export const unreadCount = (list: AppNotification[]) => list.filter(notification => !notification.read).length;
+
+// Splits the log into its groups, keeping the order within each and leaving
+// out groups with nothing in them.
+export const groupNotifications = (list: AppNotification[]) =>
+  (Object.keys(NOTIFICATION_GROUPS) as NotificationGroup[])
+    .map(group => ({
+      group,
+      label: NOTIFICATION_GROUPS[group],
+      notifications: list.filter(notification => notification.group === group),
+    }))
+    .filter(entry => entry.notifications.length > 0);
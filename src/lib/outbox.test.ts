@@ -0,0 +1,79 @@
+import { OutboundMessage } from './protocol';
+import { OutboxCommand, OutboxEntry, addCommand, discardCommand, enqueueCommand, flushOutbox, getOutbox } from './outbox';
+import { defaultGenerationSettings } from './generation';
+
+const start = (jobId: string): OutboxCommand => ({
+  type: 'start_processing',
+  jobId,
+  filename: `${jobId}.png`,
+  settings: defaultGenerationSettings,
+});
+
+const commands = (entries: OutboxEntry[]) => entries.map(entry => `${entry.command.type}:${entry.command.jobId}`);
+
+test('drops a command already waiting for the same job', () => {
+  let entries = addCommand([], start('j1'), 1);
+  entries = addCommand(entries, start('j2'), 2);
+  entries = addCommand(entries, start('j1'), 3);
+
+  expect(commands(entries)).toEqual(['start_processing:j1', 'start_processing:j2']);
+  expect(entries[0].queuedAt).toBe(1);
+});
+
+test('cancelling a job whose start is still waiting withdraws the start', () => {
+  const entries = addCommand(addCommand([], start('j1')), { type: 'cancel_processing', jobId: 'j1' });
+  expect(entries).toEqual([]);
+
+  const sentAlready = addCommand([], { type: 'cancel_processing', jobId: 'j2' });
+  expect(commands(sentAlready)).toEqual(['cancel_processing:j2']);
+});
+
+test('sends in order and keeps everything from the first failure on', async () => {
+  ['j1', 'j2', 'j3'].forEach(jobId => enqueueCommand(start(jobId)));
+  const sent: OutboundMessage[] = [];
+  await flushOutbox(async message => {
+    if (sent.length === 1) {
+      return false;
+    }
+    sent.push(message);
+    return true;
+  });
+
+  expect(sent).toEqual([start('j1')]);
+  expect(commands(getOutbox())).toEqual(['start_processing:j2', 'start_processing:j3']);
+  await flushOutbox(() => true);
+});
+
+test('persists queued commands until the server has taken them', async () => {
+  enqueueCommand(start('j1'));
+  expect(JSON.parse(localStorage.getItem('videogen.outbox')!)).toHaveLength(1);
+
+  await flushOutbox(() => false);
+  expect(getOutbox()).toHaveLength(1);
+
+  let accept: (sent: boolean) => void = () => undefined;
+  const flushed = flushOutbox(() => new Promise<boolean>(resolve => (accept = resolve)));
+  expect(getOutbox()).toHaveLength(1);
+  accept(true);
+  await flushed;
+  expect(getOutbox()).toEqual([]);
+  expect(localStorage.getItem('videogen.outbox')).toBe('[]');
+});
+
+test('keeps commands another tab queued while flushing', async () => {
+  enqueueCommand(start('j1'));
+  const sent: OutboundMessage[] = [];
+  await flushOutbox(message => {
+    if (sent.length === 0) {
+      // Another tab queues a start while the leader's send is in flight.
+      const stored = JSON.parse(localStorage.getItem('videogen.outbox')!);
+      localStorage.setItem('videogen.outbox', JSON.stringify([...stored, { command: start('j2'), queuedAt: 1 }]));
+    }
+    sent.push(message);
+    return sent.length === 1;
+  });
+
+  expect(commands(getOutbox())).toEqual(['start_processing:j2']);
+  discardCommand(getOutbox()[0]);
+  expect(getOutbox()).toEqual([]);
+});
@@ -0,0 +1,82 @@
+import { CancelProcessingCommand, OutboundMessage, StartProcessingCommand, StartSequenceCommand } from './protocol';
+import { Store } from './store';
+
+// Commands that must reach the server eventually, even if the socket is down
+// when they are issued.
+export type OutboxCommand = StartProcessingCommand | StartSequenceCommand | CancelProcessingCommand;
+
+export interface OutboxEntry {
+  command: OutboxCommand;
+  queuedAt: number;
+}
+
+const STORAGE_KEY = 'videogen.outbox';
+
+const sameCommand = (a: OutboxCommand, b: OutboxCommand) => a.type === b.type && a.jobId === b.jobId;
+
+// Entries are read back from storage, so they are matched by content.
+const sameEntry = (a: OutboxEntry, b: OutboxEntry) => sameCommand(a.command, b.command) && a.queuedAt === b.queuedAt;
+
+// Adds a command unless the same command for the same job is already
+// waiting. Cancelling a job whose start never left cancels the start instead:
+// the server has nothing to stop.
+export function addCommand(entries: OutboxEntry[], command: OutboxCommand, now = Date.now()): OutboxEntry[] {
+  if (command.type === 'cancel_processing') {
+    const withoutStart = entries.filter(entry => entry.command.type === 'cancel_processing' || entry.command.jobId !== command.jobId);
+    if (withoutStart.length < entries.length) {
+      return withoutStart;
+    }
+  }
+  if (entries.some(entry => sameCommand(entry.command, command))) {
+    return entries;
+  }
+  return [...entries, { command, queuedAt: now }];
+}
+
+// Every tab queues into the same key and the leader tab flushes it, so each
+// change is applied to what is in storage at that moment.
+const outbox = new Store<OutboxEntry[]>([], {
+  key: STORAGE_KEY,
+  parse: stored => (Array.isArray(stored) ? stored : []),
+  shared: true,
+});
+
+const without = (entry: OutboxEntry) => (entries: OutboxEntry[]) =>
+  entries.some(candidate => sameEntry(candidate, entry)) ? entries.filter(candidate => !sameEntry(candidate, entry)) : entries;
+
+export function getOutbox() {
+  return outbox.get();
+}
+
+export function enqueueCommand(command: OutboxCommand) {
+  outbox.update(entries => addCommand(entries, command));
+}
+
+let flushing = false;
+
+// Sends entries in order, taking each out only once send reports it taken.
+// Stops at the first send that fails so later commands never overtake
+// earlier ones. Commands queued during a flush are sent by the same one.
+export async function flushOutbox(send: (message: OutboundMessage) => boolean | Promise<boolean>) {
+  if (flushing) {
+    return;
+  }
+  flushing = true;
+  try {
+    while (outbox.get().length > 0) {
+      const entry = outbox.get()[0];
+      if (!(await send(entry.command))) {
+        break;
+      }
+      outbox.update(without(entry));
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+export function discardCommand(entry: OutboxEntry) {
+  outbox.update(without(entry));
+}
+
+export const subscribeOutbox = (listener: (entries: OutboxEntry[]) => void) => outbox.subscribe(listener);
@@ -0,0 +1,34 @@
+import { formatTimecode, frameStep, loopTarget, nextPlaybackRate, setLoopPoint } from './playback';
+
+test('formats time codes to hundredths', () => {
+  expect(formatTimecode(0)).toBe('0:00.00');
+  expect(formatTimecode(65.5)).toBe('1:05.50');
+  expect(formatTimecode(NaN)).toBe('0:00.00');
+});
+
+test('steps to the middle of the neighbouring frame and stays in range', () => {
+  expect(frameStep(1, 10, 1, 5)).toBeCloseTo(1.15);
+  expect(frameStep(1.15, 10, -1, 5)).toBeCloseTo(1.05);
+  expect(frameStep(0.01, 10, -1, 5)).toBeCloseTo(0.05);
+  expect(frameStep(4.99, 10, 1, 5)).toBeCloseTo(4.95);
+});
+
+test('cycles playback rates without running off either end', () => {
+  expect(nextPlaybackRate(1, 1)).toBe(1.25);
+  expect(nextPlaybackRate(2, 1)).toBe(2);
+  expect(nextPlaybackRate(0.25, -1)).toBe(0.25);
+  expect(nextPlaybackRate(3, -1)).toBe(0.75);
+});
+
+test('builds an A-B loop from either end and keeps it ordered', () => {
+  const fromA = setLoopPoint(null, 'start', 2, 10);
+  expect(fromA).toEqual({ start: 2, end: 10 });
+  expect(setLoopPoint(fromA, 'end', 4, 10)).toEqual({ start: 2, end: 4 });
+  expect(setLoopPoint(null, 'end', 3, 10)).toEqual({ start: 0, end: 3 });
+  expect(setLoopPoint({ start: 5, end: 8 }, 'end', 1, 10)).toEqual({ start: 1, end: 5 });
+  expect(setLoopPoint({ start: 5, end: 8 }, 'end', 5, 10)).toBeNull();
+
+  expect(loopTarget(4.01, { start: 2, end: 4 })).toBe(2);
+  expect(loopTarget(3, { start: 2, end: 4 })).toBeNull();
+  expect(loopTarget(9, null)).toBeNull();
+});
@@ -0,0 +1,53 @@
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+export const DEFAULT_FRAME_RATE = 30;
+
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+export const clampTime = (time: number, duration: number) => Math.min(Math.max(time, 0), duration || 0);
+
+// Seconds as m:ss.cc, precise enough to tell frames apart when stepping.
+export function formatTimecode(seconds: number) {
+  const safe = Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+  const minutes = Math.floor(safe / 60);
+  const rest = safe - minutes * 60;
+  return `${minutes}:${rest.toFixed(2).padStart(5, '0')}`;
+}
+
+// Time to seek to for the frame before or after the one showing at `time`.
+// Targets the middle of the frame: seeking to its exact start can land on
+// the previous frame after floating point rounding.
+export function frameStep(time: number, fps: number, direction: -1 | 1, duration: number) {
+  const lastFrame = Math.max(0, Math.ceil(duration * fps) - 1);
+  const frame = Math.min(Math.max(Math.floor(time * fps) + direction, 0), lastFrame);
+  return clampTime((frame + 0.5) / fps, duration);
+}
+
+export function nextPlaybackRate(current: number, direction: -1 | 1) {
+  const index = PLAYBACK_RATES.indexOf(current);
+  const from = index === -1 ? PLAYBACK_RATES.indexOf(1) : index;
+  return PLAYBACK_RATES[Math.min(Math.max(from + direction, 0), PLAYBACK_RATES.length - 1)];
+}
+
+// Sets point A (start) or B (end) of the loop. Setting A alone loops to the
+// end of the video; setting B alone loops from the beginning. Points set in
+// the wrong order are swapped, and a zero-length range clears the loop.
+export function setLoopPoint(
+  loop: LoopRange | null,
+  point: 'start' | 'end',
+  time: number,
+  duration: number
+): LoopRange | null {
+  const start = point === 'start' ? time : loop?.start ?? 0;
+  const end = point === 'end' ? time : loop?.end ?? duration;
+  if (start === end) {
+    return null;
+  }
+  return { start: Math.min(start, end), end: Math.max(start, end) };
+}
+
+// Where playback should jump to keep it inside the loop, or null to carry on.
+export const loopTarget = (time: number, loop: LoopRange | null) =>
+  loop && time >= loop.end ? loop.start : null;
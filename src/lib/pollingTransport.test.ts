@@ -0,0 +1,81 @@
+import { HttpError, HttpRequest } from './api';
+import { PollingTransport, statusFrames } from './pollingTransport';
+import { InboundMessage } from './protocol';
+import { defaultGenerationSettings } from './generation';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('maps job statuses onto the WebSocket frames', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  expect(
+    statusFrames({
+      jobs: [
+        { job_id: 'j1', status: 'processing', progress: 40 },
+        { job_id: 'j2', status: 'completed', video_url: '/videos/j2.mp4' },
+        { job_id: 'j3', status: 'failed' },
+        { job_id: 'j4', status: 'queued' },
+        { job_id: 'j5', status: 'completed' },
+      ],
+    })
+  ).toEqual([
+    { type: 'progress', job_id: 'j1', value: 40 },
+    { type: 'complete', job_id: 'j2', video_url: '/videos/j2.mp4' },
+    { type: 'failed', job_id: 'j3', message: 'Generation failed' },
+    { type: 'progress', job_id: 'j4', value: 0 },
+  ]);
+  expect(statusFrames(null)).toEqual([]);
+});
+
+test('polls the jobs it started until they finish', async () => {
+  let status: any[] = [];
+  const requests: HttpRequest[] = [];
+  const transport = new PollingTransport({
+    interval: 10,
+    client: async request => {
+      requests.push(request);
+      return { status: 200, data: request.method === 'GET' ? { jobs: status } : null };
+    },
+  });
+  const messages: InboundMessage[] = [];
+  transport.on('message', message => messages.push(message));
+
+  expect(await transport.send({ type: 'cancel_processing', jobId: 'j1' })).toBe(false);
+  transport.connect();
+  await flush();
+  expect(transport.state).toBe('established');
+
+  expect(
+    await transport.send({ type: 'start_processing', jobId: 'j1', filename: 'a.png', settings: defaultGenerationSettings })
+  ).toBe(true);
+  expect(requests[1]).toMatchObject({ method: 'POST', path: '/commands' });
+
+  status = [{ job_id: 'j1', status: 'processing', progress: 50 }];
+  await new Promise(resolve => setTimeout(resolve, 15));
+  status = [{ job_id: 'j1', status: 'completed', video_url: '/videos/j1.mp4' }];
+  await new Promise(resolve => setTimeout(resolve, 15));
+  await new Promise(resolve => setTimeout(resolve, 15));
+  transport.dispose();
+
+  expect(messages).toEqual([
+    { type: 'progress', job_id: 'j1', value: 50 },
+    { type: 'complete', job_id: 'j1', video_url: '/videos/j1.mp4' },
+  ]);
+  const lastPoll = requests.filter(request => request.method === 'GET').pop();
+  expect(lastPoll?.path).toBe('/jobs/status?ids=');
+});
+
+test('gives up after repeated failures and stops on 401', async () => {
+  const failing = new PollingTransport({
+    interval: 1,
+    maxFailures: 2,
+    client: () => Promise.reject(new HttpError(0, 'network error')),
+  });
+  failing.connect();
+  await new Promise(resolve => setTimeout(resolve, 20));
+  expect(failing.state).toBe('failed');
+
+  const refused = new PollingTransport({ client: () => Promise.reject(new HttpError(401, 'unauthorized')) });
+  refused.connect();
+  await flush();
+  expect(refused.state).toBe('unauthorized');
+});
@@ -0,0 +1,200 @@
+import { HttpClient, HttpError, postCommand, responseFields } from './api';
+import { Emitter } from './emitter';
+import { createLogger } from './logger';
+import { InboundMessage, OutboundMessage } from './protocol';
+import { ConnectionState, StateDetail, VideoGenSocketEvents, decodeFrame } from './videoGenSocket';
+
+export interface PollingTransportOptions {
+  client: HttpClient;
+  interval?: number;
+  // Consecutive failed polls before giving up.
+  maxFailures?: number;
+}
+
+// Turns a /jobs/status response into the frames the WebSocket would have
+// sent, so the app handles both the same way. Each frame goes through the
+// same decoder, which drops the ones with missing or mistyped fields.
+export function statusFrames(data: unknown): InboundMessage[] {
+  const { jobs } = responseFields(data);
+  if (!Array.isArray(jobs)) {
+    return [];
+  }
+  return jobs
+    .map(responseFields)
+    .map(job => {
+      switch (job.status) {
+        case 'completed':
+          return { type: 'complete', job_id: job.job_id, video_url: job.video_url };
+        case 'failed':
+          return { type: 'failed', job_id: job.job_id, message: job.message || 'Generation failed' };
+        default:
+          return { type: 'progress', job_id: job.job_id, value: job.progress ?? 0 };
+      }
+    })
+    .map(frame => decodeFrame(JSON.stringify(frame)))
+    .filter((frame): frame is InboundMessage => frame !== null);
+}
+
+const log = createLogger('polling');
+
+// Last resort when neither WebSockets nor event streams get through: asks
+// for the status of every job it has started or been told to follow.
+export class PollingTransport extends Emitter<VideoGenSocketEvents> {
+  private readonly options: Required<PollingTransportOptions>;
+  private currentState: ConnectionState = 'idle';
+  private watched: string[] = [];
+  private lastProgress: Record<string, number> = {};
+  private failures = 0;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: PollingTransportOptions) {
+    super();
+    this.options = { interval: 2000, maxFailures: 5, ...options };
+  }
+
+  get state() {
+    return this.currentState;
+  }
+
+  connect() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.failures = 0;
+    this.setState('connecting');
+    this.poll();
+  }
+
+  reconnect() {
+    this.stop();
+    this.connect();
+  }
+
+  disconnect() {
+    this.stop();
+    this.setState('closed');
+  }
+
+  dispose() {
+    this.disconnect();
+    this.removeAllListeners();
+  }
+
+  // Resolves once the server has taken the command, so the outbox only lets
+  // go of it then.
+  async send(message: OutboundMessage): Promise<boolean> {
+    if (this.currentState !== 'established') {
+      return false;
+    }
+    switch (message.type) {
+      case 'init':
+      case 'ping':
+        return true;
+      case 'subscribe':
+        message.jobIds.forEach(jobId => this.watch(jobId));
+        return true;
+      case 'start_processing':
+      case 'start_sequence':
+        this.watch(message.jobId);
+        break;
+      case 'cancel_processing':
+        this.unwatch(message.jobId);
+        break;
+    }
+    try {
+      await postCommand(this.options.client, message);
+      return true;
+    } catch (error) {
+      log.error(`Could not send ${message.type}`, error);
+      this.emit('error', error as Error);
+      return false;
+    }
+  }
+
+  private watch(jobId: string) {
+    if (!this.watched.includes(jobId)) {
+      this.watched = [...this.watched, jobId];
+    }
+  }
+
+  private unwatch(jobId: string) {
+    this.watched = this.watched.filter(id => id !== jobId);
+    delete this.lastProgress[jobId];
+  }
+
+  private stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule() {
+    if (this.running) {
+      this.timer = setTimeout(() => this.poll(), this.options.interval);
+    }
+  }
+
+  private poll() {
+    this.timer = null;
+    const ids = this.watched.map(encodeURIComponent).join(',');
+    this.options
+      .client({ method: 'GET', path: `/jobs/status?ids=${ids}` })
+      .then(response => {
+        if (!this.running) {
+          return;
+        }
+        this.failures = 0;
+        if (this.currentState !== 'established') {
+          this.setState('established');
+        }
+        statusFrames(response.data).forEach(frame => this.deliver(frame));
+        this.schedule();
+      })
+      .catch(error => {
+        if (!this.running) {
+          return;
+        }
+        if (error instanceof HttpError && error.status === 401) {
+          this.stop();
+          this.setState('unauthorized');
+          return;
+        }
+        this.failures++;
+        log.warn(`Poll failed (${this.failures}/${this.options.maxFailures})`, error);
+        if (this.failures >= this.options.maxFailures) {
+          this.stop();
+          this.setState('failed', { reason: error instanceof Error ? error.message : undefined });
+          return;
+        }
+        this.setState('backoff', { attempt: this.failures, delay: this.options.interval });
+        this.schedule();
+      });
+  }
+
+  // Polls repeat unchanged progress; only changes are passed on, and only
+  // for jobs still being followed.
+  private deliver(frame: InboundMessage) {
+    if ('job_id' in frame && frame.job_id && !this.watched.includes(frame.job_id)) {
+      return;
+    }
+    if (frame.type === 'progress') {
+      if (this.lastProgress[frame.job_id] === frame.value) {
+        return;
+      }
+      this.lastProgress[frame.job_id] = frame.value;
+    } else if (frame.type === 'complete' || frame.type === 'failed') {
+      this.unwatch(frame.job_id);
+    }
+    log.frame('in', frame);
+    this.emit('message', frame);
+  }
+
+  private setState(state: ConnectionState, detail: Partial<StateDetail> = {}) {
+    this.currentState = state;
+    this.emit('state', state, { attempt: this.failures, maxAttempts: this.options.maxFailures, ...detail });
+  }
+}
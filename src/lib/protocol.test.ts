@@ -0,0 +1,125 @@
+import { OutboundMessage, decodeInbound, decodeOutbound, encodeOutbound } from './protocol';
+import { defaultGenerationSettings } from './generation';
+
+const decode = (data: unknown) => decodeInbound(JSON.stringify(data));
+
+test('decodes every inbound message type', () => {
+  const frames = [
+    { type: 'connection', status: 'established' },
+    { type: 'progress', job_id: 'j1', value: 42 },
+    { type: 'progress', job_id: 'j1', filename: 'a.png', value: 42 },
+    { type: 'complete', job_id: 'j1', video_url: '/videos/a.mp4' },
+    { type: 'error', message: 'Boom' },
+    { type: 'error', message: 'Boom', job_id: 'j1', filename: 'a.png' },
+    { type: 'failed', job_id: 'j1', message: 'Out of memory' },
+    { type: 'pong' },
+    { type: 'unauthorized' },
+    { type: 'unauthorized', message: 'Token expired' },
+  ];
+
+  frames.forEach(frame => {
+    expect(decode(frame)).toEqual({ ok: true, message: frame });
+  });
+});
+
+test.each([
+  ['not json', 'frame is not valid JSON'],
+  ['[]', 'frame is not a JSON object'],
+  ['{"type":"mystery"}', 'unknown message type "mystery"'],
+  ['{"value":1}', 'unknown message type undefined'],
+  ['{"type":"progress","filename":"a.png","value":50}', 'progress frame without a job_id'],
+  ['{"type":"progress","job_id":"j1","value":"50"}', 'progress value must be a number between 0 and 100'],
+  ['{"type":"progress","job_id":"j1","value":150}', 'progress value must be a number between 0 and 100'],
+  ['{"type":"complete","job_id":"j1"}', 'complete frame without a video_url'],
+  ['{"type":"error","message":"x","job_id":3}', 'error frame job_id must be a string'],
+  ['{"type":"failed","filename":"a.png","message":"x"}', 'failed frame without a job_id'],
+])('rejects malformed frame %s', (raw, error) => {
+  expect(decodeInbound(raw)).toEqual({ ok: false, error, raw });
+});
+
+test('encodes outbound commands in the wire format', () => {
+  expect(JSON.parse(encodeOutbound({ type: 'init' }))).toEqual({ type: 'init', protocol_version: 3 });
+  expect(JSON.parse(encodeOutbound({ type: 'init', token: 't1' }))).toEqual({
+    type: 'init',
+    protocol_version: 3,
+    token: 't1',
+  });
+  expect(JSON.parse(encodeOutbound({ type: 'ping' }))).toEqual({ type: 'ping' });
+  expect(
+    JSON.parse(encodeOutbound({ type: 'start_processing', jobId: 'j1', filename: 'a.png', settings: defaultGenerationSettings }))
+  ).toEqual({
+    action: 'start_processing',
+    job_id: 'j1',
+    filename: 'a.png',
+    settings: { duration: 5, resolution: '720p', fps: 30, motion: 'subtle' },
+  });
+  expect(
+    JSON.parse(
+      encodeOutbound({
+        type: 'start_processing',
+        jobId: 'j1',
+        filename: 'a.png',
+        settings: { ...defaultGenerationSettings, seed: 3, prompt: ' waves ' },
+      })
+    ).settings
+  ).toEqual({ duration: 5, resolution: '720p', fps: 30, motion: 'subtle', seed: 3, prompt: 'waves' });
+  expect(JSON.parse(encodeOutbound({ type: 'cancel_processing', jobId: 'j1' }))).toEqual({
+    action: 'cancel_processing',
+    job_id: 'j1',
+  });
+  expect(JSON.parse(encodeOutbound({ type: 'subscribe', jobIds: ['j1', 'j2'] }))).toEqual({
+    action: 'subscribe',
+    job_ids: ['j1', 'j2'],
+  });
+});
+
+test('encodes a sequence as one job with its ordered frames', () => {
+  const encoded = encodeOutbound({
+    type: 'start_sequence',
+    jobId: 'seq-1',
+    frames: [
+      { jobId: 'j2', filename: 'b.png', hold: 1.5, transition: 'morph' },
+      { jobId: 'j1', filename: 'a.png', hold: 3, transition: 'cut' },
+    ],
+    settings: defaultGenerationSettings,
+  });
+  expect(JSON.parse(encoded)).toEqual({
+    action: 'start_sequence',
+    job_id: 'seq-1',
+    frames: [
+      { job_id: 'j2', filename: 'b.png', hold: 1.5, transition: 'morph' },
+      { job_id: 'j1', filename: 'a.png', hold: 3, transition: 'cut' },
+    ],
+    settings: { duration: 5, resolution: '720p', fps: 30, motion: 'subtle' },
+  });
+});
+
+test.each<OutboundMessage>([
+  { type: 'init' },
+  { type: 'init', token: 't1' },
+  { type: 'ping' },
+  { type: 'start_processing', jobId: 'j1', filename: 'a.png', settings: defaultGenerationSettings },
+  {
+    type: 'start_processing',
+    jobId: 'j1',
+    filename: 'a.png',
+    settings: { ...defaultGenerationSettings, fps: 60, seed: 7, prompt: 'waves' },
+  },
+  {
+    type: 'start_sequence',
+    jobId: 'seq-1',
+    frames: [{ jobId: 'j1', filename: 'a.png', hold: 2, transition: 'crossfade' }],
+    settings: defaultGenerationSettings,
+  },
+  { type: 'cancel_processing', jobId: 'j1' },
+  { type: 'subscribe', jobIds: ['j1', 'j2'] },
+])('decodes what it encodes: %o', message => {
+  expect(decodeOutbound(encodeOutbound(message))).toEqual(message);
+});
+
+test.each(['not json', '{"action":"start_processing"}', '{"action":"subscribe","job_ids":[1]}', '{"action":"reboot"}'])(
+  'rejects the command %s',
+  raw => {
+    expect(decodeOutbound(raw)).toBeNull();
+  }
+);
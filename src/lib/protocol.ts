@@ -0,0 +1,303 @@
+import {
+  FRAME_RATES,
+  GenerationSettings,
+  MOTION_STYLES,
+  RESOLUTIONS,
+  defaultGenerationSettings,
+} from './generation';
+import { SEQUENCE_TRANSITIONS, SequenceTransition } from './sequence';
+
+// Wire protocol between the app and the video generation backend.
+// Bump PROTOCOL_VERSION whenever a message shape changes; it is announced
+// to the server in the init message.
+export const PROTOCOL_VERSION = 3;
+
+// Inbound (server -> client). Job frames are routed by the job_id the
+// server issued in its /upload response; filename is informational only.
+
+export interface ConnectionMessage {
+  type: 'connection';
+  status: string;
+  message?: string;
+}
+
+export interface ProgressMessage {
+  type: 'progress';
+  job_id: string;
+  filename?: string;
+  value: number;
+}
+
+export interface CompleteMessage {
+  type: 'complete';
+  job_id: string;
+  filename?: string;
+  video_url: string;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+  job_id?: string;
+  filename?: string;
+}
+
+export interface FailedMessage {
+  type: 'failed';
+  job_id: string;
+  filename?: string;
+  message: string;
+}
+
+export interface PongMessage {
+  type: 'pong';
+}
+
+// Sent when the token is missing, invalid or has expired mid-session.
+export interface UnauthorizedMessage {
+  type: 'unauthorized';
+  message?: string;
+}
+
+export type InboundMessage =
+  | ConnectionMessage
+  | ProgressMessage
+  | CompleteMessage
+  | ErrorMessage
+  | FailedMessage
+  | PongMessage
+  | UnauthorizedMessage;
+
+// Outbound (client -> server)
+
+export interface InitCommand {
+  type: 'init';
+  token?: string;
+}
+
+export interface PingCommand {
+  type: 'ping';
+}
+
+export interface StartProcessingCommand {
+  type: 'start_processing';
+  jobId: string;
+  filename: string;
+  settings: GenerationSettings;
+}
+
+export interface SequenceFrameSpec {
+  jobId: string;
+  filename: string;
+  hold: number;
+  transition: SequenceTransition;
+}
+
+// Renders several uploaded images into one video. The job id is chosen by
+// the client (the uploads each got their own server id), and progress for
+// the combined video is reported under it.
+export interface StartSequenceCommand {
+  type: 'start_sequence';
+  jobId: string;
+  frames: SequenceFrameSpec[];
+  settings: GenerationSettings;
+}
+
+export interface CancelProcessingCommand {
+  type: 'cancel_processing';
+  jobId: string;
+}
+
+// Asks the server to resume sending progress for jobs started before a
+// page reload or reconnect.
+export interface SubscribeCommand {
+  type: 'subscribe';
+  jobIds: string[];
+}
+
+export type OutboundMessage =
+  | InitCommand
+  | PingCommand
+  | StartProcessingCommand
+  | StartSequenceCommand
+  | CancelProcessingCommand
+  | SubscribeCommand;
+
+export type DecodeResult =
+  | { ok: true; message: InboundMessage }
+  | { ok: false; error: string; raw: unknown };
+
+type Fields = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptional = <T>(value: unknown, guard: (v: unknown) => v is T) => value === undefined || guard(value);
+
+const decoders: { [K in InboundMessage['type']]: (data: Fields) => string | null } = {
+  connection: data => (isString(data.status) ? null : 'connection frame without a status'),
+  progress: data => {
+    if (!isString(data.job_id)) return 'progress frame without a job_id';
+    if (!isOptional(data.filename, isString)) return 'progress frame filename must be a string';
+    if (!isNumber(data.value) || data.value < 0 || data.value > 100) return 'progress value must be a number between 0 and 100';
+    return null;
+  },
+  complete: data => {
+    if (!isString(data.job_id)) return 'complete frame without a job_id';
+    if (!isOptional(data.filename, isString)) return 'complete frame filename must be a string';
+    if (!isString(data.video_url)) return 'complete frame without a video_url';
+    return null;
+  },
+  error: data => {
+    if (!isString(data.message)) return 'error frame without a message';
+    if (!isOptional(data.job_id, isString)) return 'error frame job_id must be a string';
+    if (!isOptional(data.filename, isString)) return 'error frame filename must be a string';
+    return null;
+  },
+  failed: data => {
+    if (!isString(data.job_id)) return 'failed frame without a job_id';
+    if (!isOptional(data.filename, isString)) return 'failed frame filename must be a string';
+    if (!isString(data.message)) return 'failed frame without a message';
+    return null;
+  },
+  pong: () => null,
+  unauthorized: data => (isOptional(data.message, isString) ? null : 'unauthorized frame message must be a string'),
+};
+
+export function decodeInbound(raw: string): DecodeResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'frame is not valid JSON', raw };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, error: 'frame is not a JSON object', raw };
+  }
+
+  const fields = data as Fields;
+  const type = fields.type;
+  if (!isString(type) || !Object.prototype.hasOwnProperty.call(decoders, type)) {
+    return { ok: false, error: `unknown message type ${JSON.stringify(type)}`, raw };
+  }
+
+  const error = decoders[type as InboundMessage['type']](fields);
+  if (error) {
+    return { ok: false, error, raw };
+  }
+  return { ok: true, message: fields as unknown as InboundMessage };
+}
+
+const encodeGenerationSettings = ({ seed, prompt, ...rest }: GenerationSettings) => ({
+  ...rest,
+  ...(seed !== null ? { seed } : {}),
+  ...(prompt.trim() ? { prompt: prompt.trim() } : {}),
+});
+
+export function encodeOutbound(message: OutboundMessage): string {
+  switch (message.type) {
+    case 'init':
+      return JSON.stringify({
+        type: 'init',
+        protocol_version: PROTOCOL_VERSION,
+        ...(message.token ? { token: message.token } : {}),
+      });
+    case 'ping':
+      return JSON.stringify({ type: 'ping' });
+    case 'start_processing':
+      // The backend dispatches commands on `action` rather than `type`.
+      return JSON.stringify({
+        action: 'start_processing',
+        job_id: message.jobId,
+        filename: message.filename,
+        settings: encodeGenerationSettings(message.settings),
+      });
+    case 'start_sequence':
+      return JSON.stringify({
+        action: 'start_sequence',
+        job_id: message.jobId,
+        frames: message.frames.map(frame => ({
+          job_id: frame.jobId,
+          filename: frame.filename,
+          hold: frame.hold,
+          transition: frame.transition,
+        })),
+        settings: encodeGenerationSettings(message.settings),
+      });
+    case 'cancel_processing':
+      return JSON.stringify({ action: 'cancel_processing', job_id: message.jobId });
+    case 'subscribe':
+      return JSON.stringify({ action: 'subscribe', job_ids: message.jobIds });
+  }
+}
+
+const isOneOf = <T>(values: readonly T[]) => (value: unknown): value is T => values.includes(value as T);
+const fieldsOf = (value: unknown): Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Fields) : {};
+
+// Settings are sent without the fields left at "let the server pick", so
+// those come back as their defaults.
+const decodeGenerationSettings = (value: unknown): GenerationSettings => {
+  const { duration, resolution, fps, motion, seed, prompt } = fieldsOf(value);
+  const defaults = defaultGenerationSettings;
+  return {
+    duration: isNumber(duration) ? duration : defaults.duration,
+    resolution: isOneOf(RESOLUTIONS)(resolution) ? resolution : defaults.resolution,
+    fps: isOneOf(FRAME_RATES)(fps) ? fps : defaults.fps,
+    motion: isOneOf(MOTION_STYLES)(motion) ? motion : defaults.motion,
+    seed: isNumber(seed) ? seed : null,
+    prompt: isString(prompt) ? prompt : '',
+  };
+};
+
+const decodeSequenceFrame = (value: unknown): SequenceFrameSpec | null => {
+  const { job_id: jobId, filename, hold, transition } = fieldsOf(value);
+  return isString(jobId) && isString(filename) && isNumber(hold) && isOneOf(SEQUENCE_TRANSITIONS)(transition)
+    ? { jobId, filename, hold, transition }
+    : null;
+};
+
+// The server's side of encodeOutbound, for the mock backend. Returns null
+// for anything encodeOutbound would not have produced.
+export function decodeOutbound(raw: string): OutboundMessage | null {
+  let data: Fields;
+  try {
+    data = fieldsOf(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+  const { job_id: jobId, token } = data;
+
+  if (data.type === 'init') {
+    if (token === undefined) {
+      return { type: 'init' };
+    }
+    return isString(token) ? { type: 'init', token } : null;
+  }
+  if (data.type === 'ping') {
+    return { type: 'ping' };
+  }
+  switch (data.action) {
+    case 'start_processing':
+      return isString(jobId) && isString(data.filename)
+        ? { type: 'start_processing', jobId, filename: data.filename, settings: decodeGenerationSettings(data.settings) }
+        : null;
+    case 'start_sequence': {
+      const frames = Array.isArray(data.frames) ? data.frames.map(decodeSequenceFrame) : [];
+      return isString(jobId) && !frames.includes(null)
+        ? {
+            type: 'start_sequence',
+            jobId,
+            frames: frames as SequenceFrameSpec[],
+            settings: decodeGenerationSettings(data.settings),
+          }
+        : null;
+    }
+    case 'cancel_processing':
+      return isString(jobId) ? { type: 'cancel_processing', jobId } : null;
+    case 'subscribe':
+      return Array.isArray(data.job_ids) && data.job_ids.every(isString) ? { type: 'subscribe', jobIds: data.job_ids } : null;
+    default:
+      return null;
+  }
+}
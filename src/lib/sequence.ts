@@ -0,0 +1,36 @@
+export const SEQUENCE_TRANSITIONS = ['cut', 'crossfade', 'morph', 'slide', 'zoom'] as const;
+
+export type SequenceTransition = typeof SEQUENCE_TRANSITIONS[number];
+
+export interface SequenceFrame {
+  // The id of the staged job the image came from, kept so a sequence can
+  // be split back into the same rows.
+  id: string;
+  file: File;
+  thumbnail: string | null;
+  width: number | null;
+  height: number | null;
+  // Seconds the image stays on screen, not counting the transition.
+  hold: number;
+  // How this image turns into the next one; unused on the last frame.
+  transition: SequenceTransition;
+}
+
+export const DEFAULT_HOLD = 2;
+export const MIN_HOLD = 0.5;
+export const MAX_HOLD = 10;
+
+export const clampHold = (value: number) => Math.min(MAX_HOLD, Math.max(MIN_HOLD, value));
+
+// Returns a copy of items with the one at `from` moved to `to`.
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export const sequenceHoldTime = (frames: SequenceFrame[]) => frames.reduce((total, frame) => total + frame.hold, 0);
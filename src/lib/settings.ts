@@ -0,0 +1,55 @@
+import type { DesktopEvent } from './desktopNotifications';
+import { GenerationPreset, GenerationSettings, defaultGenerationSettings } from './generation';
+import { Store } from './store';
+
+export interface Settings {
+  autoGenerate: boolean;
+  uploadConcurrency: number;
+  downscaleImages: boolean;
+  maxImageDimension: number;
+  fixOrientation: boolean;
+  resultsLayout: 'list' | 'gallery';
+  generation: GenerationSettings;
+  presets: GenerationPreset[];
+  // Opt-in system notifications while the tab is in the background.
+  desktopNotifications: boolean;
+  desktopEvents: DesktopEvent[];
+}
+
+export const defaultSettings: Settings = {
+  autoGenerate: false,
+  uploadConcurrency: 3,
+  downscaleImages: false,
+  maxImageDimension: 1920,
+  fixOrientation: true,
+  resultsLayout: 'list',
+  generation: defaultGenerationSettings,
+  presets: [],
+  desktopNotifications: false,
+  desktopEvents: ['completed', 'failed', 'batch'],
+};
+
+const STORAGE_KEY = 'videogen.settings';
+
+const settings = new Store<Settings>(defaultSettings, {
+  key: STORAGE_KEY,
+  // Merge nested generation defaults too, so fields added later get values.
+  parse: stored => {
+    const parsed = stored as Partial<Settings>;
+    return {
+      ...defaultSettings,
+      ...parsed,
+      generation: { ...defaultGenerationSettings, ...parsed.generation },
+    };
+  },
+});
+
+export function getSettings() {
+  return settings.get();
+}
+
+export function updateSettings(update: Partial<Settings>) {
+  settings.set({ ...settings.get(), ...update });
+}
+
+export const subscribeSettings = (listener: (settings: Settings) => void) => settings.subscribe(listener);
@@ -0,0 +1,127 @@
+import { HttpError, HttpRequest } from './api';
+import { SseTransport } from './sseTransport';
+import { ConnectionState, StateDetail } from './videoGenSocket';
+
+class FakeEventSource {
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  close = jest.fn();
+
+  constructor(public url: string) {}
+
+  receive(data: object) {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+  }
+}
+
+test('passes the token in the URL and posts commands', async () => {
+  const sources: FakeEventSource[] = [];
+  const requests: HttpRequest[] = [];
+  const transport = new SseTransport({
+    url: 'http://test/events',
+    client: async request => {
+      requests.push(request);
+      return { status: 202, data: null };
+    },
+    getToken: () => Promise.resolve('t 1'),
+    createEventSource: url => {
+      const source = new FakeEventSource(url);
+      sources.push(source);
+      return source;
+    },
+  });
+  const messages: unknown[] = [];
+  transport.on('message', message => messages.push(message));
+
+  transport.connect();
+  await Promise.resolve();
+  expect(sources[0].url).toBe('http://test/events?access_token=t%201');
+
+  sources[0].onopen?.(new Event('open'));
+  sources[0].receive({ type: 'progress', job_id: 'j1', value: 20 });
+  expect(messages).toEqual([{ type: 'progress', job_id: 'j1', value: 20 }]);
+
+  expect(await transport.send({ type: 'cancel_processing', jobId: 'j1' })).toBe(true);
+  expect(requests[0]).toMatchObject({ method: 'POST', path: '/commands' });
+  expect(JSON.parse(requests[0].body as string)).toEqual({ action: 'cancel_processing', job_id: 'j1' });
+
+  sources[0].receive({ type: 'unauthorized' });
+  expect(transport.state).toBe('unauthorized');
+  expect(sources[0].close).toHaveBeenCalled();
+});
+
+const setup = (client = async (_request: HttpRequest) => ({ status: 202, data: null }), maxReconnectAttempts = 5) => {
+  const sources: FakeEventSource[] = [];
+  const transport = new SseTransport({
+    url: 'http://test/events',
+    client,
+    maxReconnectAttempts,
+    createEventSource: url => {
+      const source = new FakeEventSource(url);
+      sources.push(source);
+      return source;
+    },
+  });
+  const states: Array<[ConnectionState, StateDetail]> = [];
+  transport.on('state', (state, detail) => states.push([state, detail]));
+  return { transport, sources, states };
+};
+
+test('counts the errors of a stream the browser keeps retrying', async () => {
+  const { transport, sources, states } = setup();
+  transport.connect();
+  await Promise.resolve();
+
+  sources[0].onerror?.(new Event('error'));
+  sources[0].onerror?.(new Event('error'));
+  expect(states.filter(([state]) => state === 'backoff').map(([, detail]) => detail.attempt)).toEqual([1, 2]);
+
+  sources[0].onopen?.(new Event('open'));
+  sources[0].onerror?.(new Event('error'));
+  expect(states[states.length - 1]).toEqual(['backoff', expect.objectContaining({ attempt: 1 })]);
+});
+
+test('gives up once the browser has retried the stream too often', async () => {
+  const { transport, sources, states } = setup(undefined, 2);
+  transport.connect();
+  await Promise.resolve();
+
+  sources[0].onerror?.(new Event('error'));
+  sources[0].onerror?.(new Event('error'));
+  expect(states.filter(([state]) => state === 'backoff').map(([, detail]) => detail)).toEqual([
+    { attempt: 1, maxAttempts: 2 },
+    { attempt: 2, maxAttempts: 2 },
+  ]);
+
+  sources[0].onerror?.(new Event('error'));
+  expect(states[states.length - 1]).toEqual(['failed', { attempt: 2, maxAttempts: 2 }]);
+  expect(sources[0].close).toHaveBeenCalled();
+});
+
+test('fails once the browser gives up on the stream', async () => {
+  const { transport, sources } = setup();
+  transport.connect();
+  await Promise.resolve();
+
+  sources[0].readyState = 2;
+  sources[0].onerror?.(new Event('error'));
+  expect(transport.state).toBe('failed');
+  expect(sources[0].close).toHaveBeenCalled();
+});
+
+test('reports a command as not sent when its POST fails', async () => {
+  const { transport, sources } = setup(() => Promise.reject(new HttpError(0, 'network error')));
+  const errors: unknown[] = [];
+  transport.on('error', error => errors.push(error));
+
+  expect(await transport.send({ type: 'cancel_processing', jobId: 'j1' })).toBe(false);
+  transport.connect();
+  await Promise.resolve();
+  sources[0].onopen?.(new Event('open'));
+
+  expect(await transport.send({ type: 'ping' })).toBe(true);
+  expect(await transport.send({ type: 'cancel_processing', jobId: 'j1' })).toBe(false);
+  expect(errors).toHaveLength(1);
+});
@@ -0,0 +1,176 @@
+import { HttpClient, postCommand } from './api';
+import { Emitter } from './emitter';
+import { createLogger } from './logger';
+import { OutboundMessage } from './protocol';
+import { ConnectionState, StateDetail, VideoGenSocketEvents, decodeFrame } from './videoGenSocket';
+
+export interface EventSourceLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+export interface SseTransportOptions {
+  url: string;
+  client: HttpClient;
+  createEventSource?: (url: string) => EventSourceLike;
+  // EventSource cannot send headers, so the token travels in the query.
+  getToken?: () => Promise<string | null>;
+  // Errors in a row, with the browser retrying in between, before giving up.
+  maxReconnectAttempts?: number;
+}
+
+const EVENT_SOURCE_CLOSED = 2;
+
+const log = createLogger('sse');
+
+// Receives the same frames the WebSocket would as Server-Sent Events, and
+// posts commands over HTTP. The browser reconnects an event stream by
+// itself, so there is no backoff of our own, only a limit on how many of its
+// retries to sit through.
+export class SseTransport extends Emitter<VideoGenSocketEvents> {
+  private readonly options: Required<Omit<SseTransportOptions, 'getToken'>> & Pick<SseTransportOptions, 'getToken'>;
+  private source: EventSourceLike | null = null;
+  private currentState: ConnectionState = 'idle';
+  private opening = false;
+  // Errors since the stream was last open, so the fallback can tell a stream
+  // that never connects from one that dropped.
+  private failures = 0;
+
+  constructor(options: SseTransportOptions) {
+    super();
+    this.options = {
+      createEventSource: url => new EventSource(url),
+      ...options,
+      maxReconnectAttempts: options.maxReconnectAttempts ?? 5,
+    };
+  }
+
+  get state() {
+    return this.currentState;
+  }
+
+  connect() {
+    if (!this.source && !this.opening) {
+      this.open();
+    }
+  }
+
+  reconnect() {
+    this.close();
+    this.open();
+  }
+
+  disconnect() {
+    this.close();
+    this.setState('closed');
+  }
+
+  dispose() {
+    this.disconnect();
+    this.removeAllListeners();
+  }
+
+  // Resolves once the server has taken the command, so the outbox only lets
+  // go of it then.
+  async send(message: OutboundMessage): Promise<boolean> {
+    if (this.currentState !== 'established') {
+      return false;
+    }
+    // The stream itself is the handshake and keeps itself alive.
+    if (message.type === 'init' || message.type === 'ping') {
+      return true;
+    }
+    try {
+      await postCommand(this.options.client, message);
+      return true;
+    } catch (error) {
+      log.error(`Could not send ${message.type}`, error);
+      this.emit('error', error as Error);
+      return false;
+    }
+  }
+
+  private async open() {
+    this.opening = true;
+    this.failures = 0;
+    this.setState('connecting');
+    let url = this.options.url;
+    try {
+      const token = this.options.getToken ? await this.options.getToken() : null;
+      if (token) {
+        url += `${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`;
+      }
+    } catch (error) {
+      this.opening = false;
+      this.setState('unauthorized', { reason: error instanceof Error ? error.message : 'Not signed in' });
+      return;
+    }
+    if (!this.opening) {
+      return;
+    }
+    this.opening = false;
+
+    const source = this.options.createEventSource(url);
+    this.source = source;
+    source.onopen = () => {
+      this.failures = 0;
+      this.setState('established');
+    };
+    source.onmessage = event => {
+      const data = decodeFrame(String(event.data));
+      if (!data) {
+        return;
+      }
+      log.frame('in', data);
+      if (data.type === 'connection' || data.type === 'pong') {
+        return;
+      }
+      if (data.type === 'unauthorized') {
+        this.close();
+        this.setState('unauthorized', { reason: data.message });
+        return;
+      }
+      this.emit('message', data);
+    };
+    source.onerror = event => {
+      this.emit('error', event);
+      const { maxReconnectAttempts } = this.options;
+      if (source.readyState === EVENT_SOURCE_CLOSED) {
+        log.error('Event stream closed by the browser');
+        this.close();
+        this.setState('failed');
+      } else if (this.failures >= maxReconnectAttempts) {
+        log.error(`Giving up after ${this.failures} reconnect attempts`);
+        this.close();
+        this.setState('failed');
+      } else {
+        this.failures++;
+        this.setState('backoff');
+      }
+    };
+  }
+
+  private close() {
+    this.opening = false;
+    const source = this.source;
+    this.source = null;
+    if (source) {
+      source.onopen = null;
+      source.onmessage = null;
+      source.onerror = null;
+      source.close();
+    }
+  }
+
+  private setState(state: ConnectionState, detail: Partial<StateDetail> = {}) {
+    this.currentState = state;
+    this.emit('state', state, {
+      attempt: this.failures,
+      maxAttempts: this.options.maxReconnectAttempts,
+      ...detail,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { Store } from './store';
+
+beforeEach(() => localStorage.clear());
+
+test('keeps the value in storage and tells subscribers', () => {
+  const store = new Store<string[]>([], { key: 'test.store' });
+  const seen: string[][] = [];
+  const unsubscribe = store.subscribe(value => seen.push(value));
+
+  store.set(['a']);
+  unsubscribe();
+  store.set(['a', 'b']);
+
+  expect(seen).toEqual([['a']]);
+  expect(JSON.parse(localStorage.getItem('test.store')!)).toEqual(['a', 'b']);
+  expect(new Store<string[]>([], { key: 'test.store' }).get()).toEqual(['a', 'b']);
+});
+
+test('falls back to the initial value when storage holds nothing usable', () => {
+  localStorage.setItem('test.store', '{not json');
+  expect(new Store(['initial'], { key: 'test.store' }).get()).toEqual(['initial']);
+});
+
+test('a shared store builds on what another tab wrote', () => {
+  const store = new Store<string[]>([], { key: 'test.store', shared: true });
+  store.set(['mine']);
+  // Written by another tab; its storage event has not arrived yet.
+  localStorage.setItem('test.store', JSON.stringify(['mine', 'theirs']));
+
+  store.update(values => [...values, 'next']);
+  expect(store.get()).toEqual(['mine', 'theirs', 'next']);
+});
@@ -0,0 +1,105 @@
+import { Emitter } from './emitter';
+
+export interface StoreOptions<T> {
+  // The localStorage key; without one the value only lives in memory.
+  key?: string;
+  // Turns the stored JSON back into a value, e.g. filling in fields added
+  // since it was written. Throwing falls back to the initial value.
+  parse?: (stored: unknown) => T;
+  // What to write for a value; null or undefined removes the key.
+  serialize?: (value: T) => unknown;
+  // Follows writes from other tabs of the app.
+  shared?: boolean;
+}
+
+type StoreEvents<T> = {
+  change: (value: T) => void;
+};
+
+// A module-level value the app reads directly and subscribes to through a
+// hook, kept in localStorage when given a key.
+export class Store<T> extends Emitter<StoreEvents<T>> {
+  private value: T;
+
+  constructor(private readonly initial: T, private readonly options: StoreOptions<T> = {}) {
+    super();
+    this.value = this.load();
+    if (options.key && options.shared && typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key === options.key) {
+          this.value = this.load();
+          this.emit('change', this.value);
+        }
+      });
+    }
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  set(next: T) {
+    if (next === this.value) {
+      return;
+    }
+    this.value = next;
+    this.save();
+    this.emit('change', next);
+  }
+
+  // Applies a change to the latest value. A shared store reads it back from
+  // storage first, so a write another tab made since its last storage event
+  // is built upon rather than overwritten.
+  update(change: (current: T) => T) {
+    const stored = this.options.shared ? this.read() : undefined;
+    if (stored !== undefined) {
+      this.value = stored;
+    }
+    this.set(change(this.value));
+  }
+
+  subscribe(listener: (value: T) => void) {
+    return this.on('change', listener);
+  }
+
+  private load(): T {
+    const stored = this.read();
+    return stored !== undefined ? stored : this.initial;
+  }
+
+  // undefined when there is nothing usable in storage.
+  private read(): T | undefined {
+    const { key, parse } = this.options;
+    if (!key) {
+      return undefined;
+    }
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored === null) {
+        return undefined;
+      }
+      const parsed: unknown = JSON.parse(stored);
+      return parse ? parse(parsed) : (parsed as T);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private save() {
+    const { key, serialize } = this.options;
+    if (!key) {
+      return;
+    }
+    try {
+      const data = serialize ? serialize(this.value) : this.value;
+      if (data === null || data === undefined) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, JSON.stringify(data));
+      }
+    } catch {
+      // Private browsing or a full quota; the value still holds until the
+      // page is closed.
+    }
+  }
+}
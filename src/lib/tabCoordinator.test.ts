@@ -0,0 +1,112 @@
+import { ChannelLike, LocksLike, TabCoordinator, TabMessage, createActionFilter, isSharedAction } from './tabCoordinator';
+
+// Delivers each post to every other channel, like BroadcastChannel does.
+const createBus = () => {
+  const channels: ChannelLike[] = [];
+  const channel = (): ChannelLike => {
+    const self: ChannelLike = {
+      onmessage: null,
+      postMessage: message =>
+        channels
+          .filter(other => other !== self)
+          .forEach(other => other.onmessage?.(new MessageEvent('message', { data: message }))),
+      close: () => {
+        channels.splice(channels.indexOf(self), 1);
+      },
+    };
+    channels.push(self);
+    return self;
+  };
+  return { channel };
+};
+
+// An exclusive lock with a FIFO wait queue.
+const createLocks = (): LocksLike => {
+  const queue: Array<() => Promise<void>> = [];
+  const grantNext = () => {
+    const next = queue[0];
+    if (next) {
+      next().then(() => {
+        queue.shift();
+        grantNext();
+      });
+    }
+  };
+  return {
+    request: (name, callback) => {
+      queue.push(callback);
+      if (queue.length === 1) {
+        grantNext();
+      }
+      return Promise.resolve();
+    },
+  };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('elects the first tab and hands over when it closes', async () => {
+  const bus = createBus();
+  const locks = createLocks();
+  const first = new TabCoordinator({ channel: bus.channel(), locks });
+  const second = new TabCoordinator({ channel: bus.channel(), locks });
+  const roles: string[] = [];
+  second.on('role', role => roles.push(role));
+
+  first.start();
+  second.start();
+  await flush();
+  expect(first.role).toBe('leader');
+  expect(second.role).toBe('follower');
+
+  first.dispose();
+  await flush();
+  expect(roles).toEqual(['leader']);
+});
+
+test('relays messages to the other tabs only', () => {
+  const bus = createBus();
+  const leader = new TabCoordinator({ channel: bus.channel(), locks: null });
+  const follower = new TabCoordinator({ channel: bus.channel(), locks: null });
+  const toLeader: TabMessage[] = [];
+  const toFollower: TabMessage[] = [];
+  leader.on('message', message => toLeader.push(message));
+  follower.on('message', message => toFollower.push(message));
+  leader.start();
+  follower.start();
+
+  leader.post({ kind: 'inbound', message: { type: 'progress', job_id: 'j1', value: 10 } });
+  follower.post({ kind: 'hello' });
+
+  expect(toFollower).toEqual([{ kind: 'inbound', message: { type: 'progress', job_id: 'j1', value: 10 } }]);
+  expect(toLeader).toEqual([{ kind: 'hello' }]);
+});
+
+test('leads on its own without Web Locks or BroadcastChannel', () => {
+  const coordinator = new TabCoordinator({ channel: null, locks: null });
+  coordinator.start();
+  expect(coordinator.role).toBe('leader');
+  expect(() => coordinator.post({ kind: 'hello' })).not.toThrow();
+});
+
+test('shares list changes but not what each tab derives from the socket', () => {
+  expect(isSharedAction({ type: 'REMOVE', id: 'a' })).toBe(true);
+  expect(isSharedAction({ type: 'UPLOAD_PROGRESS', id: 'a', uploadedBytes: 1, uploadTotal: 2 })).toBe(false);
+  expect(isSharedAction({ type: 'PROGRESS', jobId: 'j1', value: 10, at: 1 })).toBe(false);
+  expect(isSharedAction({ type: 'HYDRATE', jobs: [], at: 1 })).toBe(false);
+});
+
+test('shares upload progress at most once per interval and job', () => {
+  let time = 0;
+  const shouldShare = createActionFilter(500, () => time);
+  const progress = (id: string) => ({ type: 'UPLOAD_PROGRESS' as const, id, uploadedBytes: time, uploadTotal: 2000 });
+
+  expect(shouldShare(progress('a'))).toBe(true);
+  time = 200;
+  expect(shouldShare(progress('a'))).toBe(false);
+  expect(shouldShare(progress('b'))).toBe(true);
+  time = 500;
+  expect(shouldShare(progress('a'))).toBe(true);
+  expect(shouldShare({ type: 'UPLOAD_STARTED', ids: ['a'], at: 1 })).toBe(true);
+  expect(shouldShare({ type: 'PROGRESS', jobId: 'j1', value: 10, at: 1 })).toBe(false);
+});
@@ -0,0 +1,150 @@
+import { Emitter } from './emitter';
+import { Job, JobAction } from './jobs';
+import { InboundMessage, OutboundMessage } from './protocol';
+import { ConnectionState, StateDetail } from './videoGenSocket';
+import { createLogger } from './logger';
+
+const log = createLogger('tabs');
+
+export type TabRole = 'follower' | 'leader';
+
+export type TabMessage =
+  // Leader to followers: a frame that arrived on the socket.
+  | { kind: 'inbound'; message: InboundMessage }
+  // Leader to followers: the socket's connection state.
+  | { kind: 'state'; state: ConnectionState; detail: StateDetail | null }
+  // Follower to leader: a command to send on the socket.
+  | { kind: 'send'; message: OutboundMessage }
+  // Follower to leader: the user pressed Reconnect.
+  | { kind: 'reconnect' }
+  // Any tab to the others: a change to the shared job list.
+  | { kind: 'action'; action: JobAction }
+  // A tab that just opened asks for the current job list and state.
+  | { kind: 'hello' }
+  // A new leader asks which uploads are still running, and the tabs running
+  // them answer.
+  | { kind: 'uploads' }
+  | { kind: 'uploading'; ids: string[] }
+  | { kind: 'snapshot'; jobs: Job[]; state: ConnectionState; detail: StateDetail | null };
+
+// The subsets of BroadcastChannel and navigator.locks the coordinator relies
+// on, so tests can run several "tabs" in one process.
+export interface ChannelLike {
+  postMessage(message: TabMessage): void;
+  onmessage: ((event: MessageEvent<TabMessage>) => void) | null;
+  close(): void;
+}
+
+export interface LocksLike {
+  request(name: string, callback: () => Promise<void>): Promise<void>;
+}
+
+export interface TabCoordinatorOptions {
+  channel?: ChannelLike | null;
+  locks?: LocksLike | null;
+}
+
+type TabCoordinatorEvents = {
+  role: (role: TabRole) => void;
+  message: (message: TabMessage) => void;
+};
+
+const CHANNEL_NAME = 'videogen.tabs';
+const LEADER_LOCK = 'videogen.socket';
+
+const defaultChannel = (): ChannelLike | null =>
+  typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+const defaultLocks = (): LocksLike | null =>
+  typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null;
+
+// The backend accepts a single WebSocket client, so tabs of the same app
+// elect one leader through a Web Lock. The leader owns the socket and relays
+// it over a BroadcastChannel; the others wait in the lock queue, so the next
+// one takes over as soon as the leader's tab closes and the browser frees the
+// lock. Without Web Locks every tab simply leads, as before.
+export class TabCoordinator extends Emitter<TabCoordinatorEvents> {
+  role: TabRole = 'follower';
+  private channel: ChannelLike | null;
+  private locks: LocksLike | null;
+  private releaseLock: (() => void) | null = null;
+  private disposed = false;
+
+  constructor(options: TabCoordinatorOptions = {}) {
+    super();
+    this.channel = options.channel !== undefined ? options.channel : defaultChannel();
+    this.locks = options.locks !== undefined ? options.locks : defaultLocks();
+  }
+
+  start() {
+    if (this.channel) {
+      this.channel.onmessage = event => this.emit('message', event.data);
+    }
+    if (!this.locks) {
+      this.setRole('leader');
+      return;
+    }
+    this.locks
+      .request(LEADER_LOCK, () => {
+        if (this.disposed) {
+          return Promise.resolve();
+        }
+        this.setRole('leader');
+        // Held until this tab goes away.
+        return new Promise<void>(resolve => {
+          this.releaseLock = resolve;
+        });
+      })
+      .catch(error => {
+        log.error('Tab leader election failed', error);
+        this.setRole('leader');
+      });
+  }
+
+  post(message: TabMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.releaseLock?.();
+    this.releaseLock = null;
+    if (this.channel) {
+      this.channel.onmessage = null;
+      this.channel.close();
+    }
+    this.removeAllListeners();
+  }
+
+  private setRole(role: TabRole) {
+    this.role = role;
+    this.emit('role', role);
+  }
+}
+
+// Actions every tab derives on its own from the relayed socket frames, or
+// from its own storage, and which therefore must not be shared as well.
+// Upload progress is only shared in throttled copies.
+const LOCAL_ACTIONS: Array<JobAction['type']> = ['HYDRATE', 'SYNC', 'PROGRESS', 'COMPLETED', 'FAILED', 'UPLOAD_PROGRESS'];
+
+export const isSharedAction = (action: JobAction) => !LOCAL_ACTIONS.includes(action.type);
+
+const UPLOAD_PROGRESS_INTERVAL = 500;
+
+// Decides which actions go to the other tabs. An upload reports progress on
+// every XHR event; the others get a copy at most every interval per job,
+// while the start and end of each upload are shared as they happen.
+export function createActionFilter(interval = UPLOAD_PROGRESS_INTERVAL, now: () => number = Date.now) {
+  const lastShared: Record<string, number> = {};
+  return (action: JobAction) => {
+    if (action.type !== 'UPLOAD_PROGRESS') {
+      return isSharedAction(action);
+    }
+    const time = now();
+    if (lastShared[action.id] !== undefined && time - lastShared[action.id] < interval) {
+      return false;
+    }
+    lastShared[action.id] = time;
+    return true;
+  };
+}
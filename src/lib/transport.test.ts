@@ -0,0 +1,78 @@
+import { Emitter } from './emitter';
+import { FallbackTransport, Transport } from './transport';
+import { ConnectionState, StateDetail, VideoGenSocketEvents } from './videoGenSocket';
+
+class FakeTransport extends Emitter<VideoGenSocketEvents> implements Transport {
+  state: ConnectionState = 'idle';
+  disposed = false;
+  connect = jest.fn();
+  reconnect = jest.fn();
+  disconnect = jest.fn();
+  send = jest.fn(() => this.state === 'established');
+
+  dispose() {
+    this.disposed = true;
+    this.report('closed');
+  }
+
+  report(state: ConnectionState, detail: Partial<StateDetail> = {}) {
+    this.state = state;
+    this.emit('state', state, { attempt: 0, maxAttempts: 5, ...detail });
+  }
+}
+
+const setup = () => {
+  const created: Record<string, FakeTransport[]> = { websocket: [], sse: [] };
+  const make = (kind: 'websocket' | 'sse') => () => {
+    const transport = new FakeTransport();
+    created[kind].push(transport);
+    return transport;
+  };
+  const fallback = new FallbackTransport([
+    { kind: 'websocket', create: make('websocket') },
+    { kind: 'sse', create: make('sse') },
+  ]);
+  const states: Array<[ConnectionState, string | undefined]> = [];
+  fallback.on('state', (state, detail) => states.push([state, detail.transport]));
+  return { fallback, created, states };
+};
+
+test('falls back when the first transport never connects', () => {
+  const { fallback, created, states } = setup();
+  fallback.connect();
+  const socket = created.websocket[0];
+  socket.report('backoff', { attempt: 1 });
+  socket.report('backoff', { attempt: 2 });
+
+  expect(socket.disposed).toBe(true);
+  expect(created.sse).toHaveLength(1);
+  expect(fallback.kind).toBe('sse');
+
+  created.sse[0].report('established');
+  expect(states).toEqual([
+    ['backoff', 'websocket'],
+    ['established', 'sse'],
+  ]);
+  expect(fallback.send({ type: 'ping' })).toBe(true);
+});
+
+test('keeps a transport that has connected before', () => {
+  const { fallback, created } = setup();
+  fallback.connect();
+  created.websocket[0].report('established');
+  created.websocket[0].report('failed');
+
+  expect(created.sse).toHaveLength(0);
+  expect(fallback.state).toBe('failed');
+});
+
+test('starts over from the first transport on reconnect', () => {
+  const { fallback, created } = setup();
+  fallback.connect();
+  created.websocket[0].report('failed');
+  fallback.reconnect();
+
+  expect(created.sse[0].disposed).toBe(true);
+  expect(created.websocket).toHaveLength(2);
+  expect(fallback.kind).toBe('websocket');
+});
@@ -0,0 +1,138 @@
+import { HttpClient } from './api';
+import { Emitter } from './emitter';
+import { createLogger } from './logger';
+import { OutboundMessage } from './protocol';
+import { PollingTransport } from './pollingTransport';
+import { SseTransport } from './sseTransport';
+import { ConnectionState, VideoGenSocket, VideoGenSocketEvents, VideoGenSocketOptions } from './videoGenSocket';
+import { getApiUrl } from './backendProfiles';
+import { TransportKind } from '../config';
+
+// What the app needs from a connection to the backend, whatever carries it.
+// Commands posted over HTTP are only sent once the request succeeds, so
+// send may answer later.
+export type Transport = Pick<VideoGenSocket, 'state' | 'connect' | 'reconnect' | 'disconnect' | 'dispose' | 'on'> & {
+  send(message: OutboundMessage): boolean | Promise<boolean>;
+};
+
+export const TRANSPORT_LABELS: Record<TransportKind, string> = {
+  websocket: 'WebSocket',
+  sse: 'Server-Sent Events',
+  polling: 'HTTP polling',
+};
+
+export interface TransportFactory {
+  kind: TransportKind;
+  create: () => Transport;
+}
+
+const log = createLogger('transport');
+
+// Failed attempts after which a transport that never connected is given up
+// on. A blocked WebSocket upgrade fails every time, so there is no point
+// sitting through the whole backoff schedule.
+const FALLBACK_ATTEMPTS = 2;
+
+// Tries each transport in turn until one connects, then sticks with it: a
+// transport that has worked once is down because the server is, not because
+// the network blocks it. Reconnect starts over from the first.
+export class FallbackTransport extends Emitter<VideoGenSocketEvents> {
+  private current: Transport | null = null;
+  private index = 0;
+  private connected = false;
+
+  constructor(private readonly factories: TransportFactory[]) {
+    super();
+  }
+
+  get kind(): TransportKind {
+    return this.factories[this.index].kind;
+  }
+
+  get state(): ConnectionState {
+    return this.current ? this.current.state : 'idle';
+  }
+
+  connect() {
+    if (!this.current) {
+      this.start(0);
+    }
+  }
+
+  reconnect() {
+    this.connected = false;
+    this.start(0);
+  }
+
+  disconnect() {
+    this.current?.disconnect();
+  }
+
+  dispose() {
+    this.stopCurrent();
+    this.removeAllListeners();
+  }
+
+  send(message: OutboundMessage): boolean | Promise<boolean> {
+    return this.current ? this.current.send(message) : false;
+  }
+
+  // Detaches before disposing, so the old transport's final 'closed' is not
+  // mistaken for the state of the connection as a whole.
+  private stopCurrent() {
+    const previous = this.current;
+    this.current = null;
+    previous?.dispose();
+  }
+
+  private start(index: number) {
+    this.stopCurrent();
+    this.index = index;
+    const { kind } = this.factories[index];
+    const transport = this.factories[index].create();
+    this.current = transport;
+
+    transport.on('state', (state, detail) => {
+      if (this.current !== transport) {
+        return;
+      }
+      if (state === 'established') {
+        this.connected = true;
+      }
+      const givingUp = state === 'failed' || (state === 'backoff' && detail.attempt >= FALLBACK_ATTEMPTS);
+      if (givingUp && !this.connected && index < this.factories.length - 1) {
+        log.warn(`${TRANSPORT_LABELS[kind]} never connected, trying ${TRANSPORT_LABELS[this.factories[index + 1].kind]}`);
+        this.start(index + 1);
+        return;
+      }
+      this.emit('state', state, { ...detail, transport: kind });
+    });
+    transport.on('message', message => this.emit('message', message));
+    transport.on('error', error => this.emit('error', error));
+    transport.connect();
+  }
+}
+
+export interface TransportOptions extends Omit<VideoGenSocketOptions, 'url'> {
+  client: HttpClient;
+}
+
+export function createTransport(url: string, kinds: TransportKind[], options: TransportOptions): FallbackTransport {
+  const { client, ...socketOptions } = options;
+  const create = (kind: TransportKind): Transport => {
+    switch (kind) {
+      case 'websocket':
+        return new VideoGenSocket({ ...socketOptions, url });
+      case 'sse':
+        return new SseTransport({
+          url: `${getApiUrl()}/events`,
+          client,
+          getToken: options.getToken,
+          maxReconnectAttempts: options.maxReconnectAttempts,
+        });
+      case 'polling':
+        return new PollingTransport({ client });
+    }
+  };
+  return new FallbackTransport(kinds.map(kind => ({ kind, create: () => create(kind) })));
+}
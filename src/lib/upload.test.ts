@@ -0,0 +1,130 @@
+import { HttpError, HttpRequest } from './api';
+import { fileFingerprint, runWithConcurrency, uploadFile } from './upload';
+
+const makeFile = (size: number, name = 'frame.png') =>
+  new File([new Uint8Array(size)], name, { type: 'image/png', lastModified: 1700000000000 });
+
+const item = (file: File) => ({ clientId: 'c1', file });
+
+// A tiny in-memory chunk server that can be told to drop requests.
+const createChunkServer = () => {
+  const received = new Map<string, number>();
+  const requests: HttpRequest[] = [];
+  let dropNextPut = false;
+
+  const client = async (request: HttpRequest) => {
+    requests.push(request);
+    const { method, path } = request;
+    if (method === 'POST' && path === '/upload/sessions') {
+      received.set('u1', 0);
+      return { status: 201, data: { upload_id: 'u1' } };
+    }
+    const match = path.match(/^\/upload\/sessions\/(\w+)(\/complete)?$/);
+    if (!match || !received.has(match[1])) {
+      throw new HttpError(404, 'not found');
+    }
+    const id = match[1];
+    if (method === 'GET') {
+      return { status: 200, data: { received_bytes: received.get(id) } };
+    }
+    if (method === 'PUT') {
+      const size = (request.body as Blob).size;
+      if (dropNextPut) {
+        dropNextPut = false;
+        // Half the chunk made it before the connection dropped.
+        received.set(id, received.get(id)! + size / 2);
+        throw new HttpError(0, 'network error');
+      }
+      received.set(id, received.get(id)! + size);
+      return { status: 200, data: { received_bytes: received.get(id) } };
+    }
+    return { status: 200, data: { job_id: 'j1', filename: 'frame.png' } };
+  };
+
+  return {
+    client,
+    requests,
+    received,
+    dropNextPut: () => {
+      dropNextPut = true;
+    },
+  };
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('uploads small files in a single request and reports progress', async () => {
+  const progress: number[] = [];
+  const client = jest.fn(async (request: HttpRequest) => {
+    request.onUploadProgress?.(512);
+    return { status: 200, data: { jobs: [{ job_id: 'j1', filename: 'frame.png', client_id: 'c1' }] } };
+  });
+
+  const job = await uploadFile(item(makeFile(1024)), {
+    client,
+    onProgress: ({ loaded }) => progress.push(loaded),
+  });
+
+  expect(job).toEqual({ clientId: 'c1', jobId: 'j1', filename: 'frame.png' });
+  expect(client).toHaveBeenCalledTimes(1);
+  expect(progress).toEqual([512, 1024]);
+});
+
+test('uploads large files in chunks with Content-Range headers', async () => {
+  const server = createChunkServer();
+  const job = await uploadFile(item(makeFile(10)), { client: server.client, chunkThreshold: 5, chunkSize: 4 });
+
+  expect(job.jobId).toBe('j1');
+  expect(server.requests.filter(r => r.method === 'PUT').map(r => r.headers?.['Content-Range'])).toEqual([
+    'bytes 0-3/10',
+    'bytes 4-7/10',
+    'bytes 8-9/10',
+  ]);
+  expect(localStorage.getItem('videogen.uploadSessions')).toBe('{}');
+});
+
+test('resumes from the acknowledged offset after a network drop', async () => {
+  const server = createChunkServer();
+  server.dropNextPut();
+
+  await uploadFile(item(makeFile(8)), { client: server.client, chunkThreshold: 5, chunkSize: 4, retryDelay: 1 });
+
+  expect(server.requests.filter(r => r.method === 'PUT').map(r => r.headers?.['Content-Range'])).toEqual([
+    'bytes 0-3/8',
+    'bytes 2-5/8',
+    'bytes 6-7/8',
+  ]);
+});
+
+test('resumes a session left over from a previous page load', async () => {
+  const server = createChunkServer();
+  const file = makeFile(8);
+  server.received.set('u1', 4);
+  localStorage.setItem('videogen.uploadSessions', JSON.stringify({ [fileFingerprint(file)]: 'u1' }));
+
+  await uploadFile(item(file), { client: server.client, chunkThreshold: 5, chunkSize: 4 });
+
+  expect(server.requests.some(r => r.method === 'POST' && r.path === '/upload/sessions')).toBe(false);
+  expect(server.requests.filter(r => r.method === 'PUT').map(r => r.headers?.['Content-Range'])).toEqual([
+    'bytes 4-7/8',
+  ]);
+});
+
+test('runWithConcurrency never exceeds the limit', async () => {
+  let inFlight = 0;
+  let peak = 0;
+  const done: number[] = [];
+
+  await runWithConcurrency([1, 2, 3, 4, 5], 2, async value => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    inFlight--;
+    done.push(value);
+  });
+
+  expect(peak).toBe(2);
+  expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+});
@@ -0,0 +1,208 @@
+import {
+  HttpClient,
+  HttpError,
+  UploadItem,
+  UploadedJob,
+  isNetworkError,
+  mapUploadResponse,
+  responseFields,
+} from './api';
+import { authClient } from './auth';
+import { computeBackoffDelay } from './videoGenSocket';
+
+export const CHUNK_SIZE = 2 * 1024 * 1024;
+export const CHUNKED_UPLOAD_THRESHOLD = 5 * 1024 * 1024;
+
+const MAX_CHUNK_ATTEMPTS = 6;
+const SESSIONS_STORAGE_KEY = 'videogen.uploadSessions';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions {
+  client?: HttpClient;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  chunkSize?: number;
+  chunkThreshold?: number;
+  retryDelay?: number;
+}
+
+// Identifies "the same file" across page reloads, where the File object
+// itself is gone and the user has to pick the image again.
+export const fileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const readSessions = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeSessions = (sessions: Record<string, string>) => {
+  try {
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    // Without storage the upload still works, it just cannot resume after a reload.
+  }
+};
+
+const rememberSession = (fingerprint: string, uploadId: string) => {
+  writeSessions({ ...readSessions(), [fingerprint]: uploadId });
+};
+
+const forgetSession = (fingerprint: string) => {
+  const { [fingerprint]: _, ...rest } = readSessions();
+  writeSessions(rest);
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+const receivedBytes = (data: unknown, fallback: number) => {
+  const { received_bytes: received } = responseFields(data);
+  return typeof received === 'number' ? received : fallback;
+};
+
+async function uploadWhole(item: UploadItem, client: HttpClient, options: UploadOptions): Promise<UploadedJob> {
+  const { file } = item;
+  const formData = new FormData();
+  formData.append('files', file);
+  formData.append('client_ids', item.clientId);
+
+  const response = await client({
+    method: 'POST',
+    path: '/upload',
+    body: formData,
+    signal: options.signal,
+    // The multipart envelope makes loaded slightly larger than the file.
+    onUploadProgress: loaded => options.onProgress?.({ loaded: Math.min(loaded, file.size), total: file.size }),
+  });
+  const [job] = mapUploadResponse(response.data, [item]);
+  options.onProgress?.({ loaded: file.size, total: file.size });
+  return job;
+}
+
+async function openSession(item: UploadItem, client: HttpClient, signal?: AbortSignal) {
+  const fingerprint = fileFingerprint(item.file);
+  const existing = readSessions()[fingerprint];
+
+  if (existing) {
+    try {
+      const status = await client({ method: 'GET', path: `/upload/sessions/${existing}`, signal });
+      return { uploadId: existing, offset: receivedBytes(status.data, 0) };
+    } catch (error) {
+      if (!(error instanceof HttpError) || error.status !== 404) {
+        throw error;
+      }
+      // The server expired the session; start over.
+      forgetSession(fingerprint);
+    }
+  }
+
+  const created = await client({
+    method: 'POST',
+    path: '/upload/sessions',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      filename: item.file.name,
+      size: item.file.size,
+      type: item.file.type,
+      client_id: item.clientId,
+    }),
+    signal,
+  });
+  const { upload_id: uploadId } = responseFields(created.data);
+  if (typeof uploadId !== 'string') {
+    throw new Error('Malformed upload session response');
+  }
+  rememberSession(fingerprint, uploadId);
+  return { uploadId, offset: 0 };
+}
+
+async function uploadInChunks(item: UploadItem, client: HttpClient, options: UploadOptions): Promise<UploadedJob> {
+  const { file } = item;
+  const { signal, onProgress } = options;
+  const chunkSize = options.chunkSize ?? CHUNK_SIZE;
+  const retryDelay = options.retryDelay ?? 1000;
+  const fingerprint = fileFingerprint(file);
+
+  const session = await openSession(item, client, signal);
+  const path = `/upload/sessions/${session.uploadId}`;
+  let offset = session.offset;
+  let attempts = 0;
+  onProgress?.({ loaded: offset, total: file.size });
+
+  while (offset < file.size) {
+    const start = offset;
+    const end = Math.min(start + chunkSize, file.size);
+    try {
+      const response = await client({
+        method: 'PUT',
+        path,
+        headers: { 'Content-Range': `bytes ${start}-${end - 1}/${file.size}` },
+        body: file.slice(start, end),
+        signal,
+        onUploadProgress: loaded => onProgress?.({ loaded: start + Math.min(loaded, end - start), total: file.size }),
+      });
+      offset = receivedBytes(response.data, end);
+      attempts = 0;
+    } catch (error) {
+      if (!isNetworkError(error) || attempts >= MAX_CHUNK_ATTEMPTS) {
+        throw error;
+      }
+      await delay(computeBackoffDelay(attempts++, retryDelay, 30000), signal);
+      // Part of the chunk may have landed before the drop; continue from
+      // whatever the server acknowledges rather than what we sent.
+      try {
+        const status = await client({ method: 'GET', path, signal });
+        offset = receivedBytes(status.data, offset);
+      } catch (statusError) {
+        if (!isNetworkError(statusError)) {
+          throw statusError;
+        }
+      }
+    }
+    onProgress?.({ loaded: offset, total: file.size });
+  }
+
+  const completed = await client({ method: 'POST', path: `${path}/complete`, signal });
+  forgetSession(fingerprint);
+  const { job_id: jobId, filename } = responseFields(completed.data);
+  if (typeof jobId !== 'string' || typeof filename !== 'string') {
+    throw new Error('Malformed upload completion response');
+  }
+  return { clientId: item.clientId, jobId, filename };
+}
+
+export function uploadFile(item: UploadItem, options: UploadOptions = {}): Promise<UploadedJob> {
+  const client = options.client ?? authClient;
+  const threshold = options.chunkThreshold ?? CHUNKED_UPLOAD_THRESHOLD;
+  return item.file.size < threshold
+    ? uploadWhole(item, client, options)
+    : uploadInChunks(item, client, options);
+}
+
+// Runs worker over items with at most `limit` in flight at once.
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>) {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
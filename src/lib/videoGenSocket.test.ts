@@ -0,0 +1,321 @@
+import {
+  ConnectionState,
+  SocketLike,
+  UNAUTHORIZED_CLOSE_CODE,
+  VideoGenSocket,
+  VideoGenSocketOptions,
+  computeBackoffDelay,
+} from './videoGenSocket';
+import { getDiagnostics } from './diagnostics';
+import { PROTOCOL_VERSION } from './protocol';
+
+class FakeSocket implements SocketLike {
+  readyState = 0;
+  sent: any[] = [];
+  closed = false;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.(new Event('open'));
+  }
+
+  receive(data: object) {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+  }
+
+  establish() {
+    this.open();
+    this.receive({ type: 'connection', status: 'established' });
+  }
+
+  serverClose(code = 1006, reason = '') {
+    this.readyState = 3;
+    this.onclose?.(new CloseEvent('close', { code, reason }));
+  }
+}
+
+const setup = (options: Partial<VideoGenSocketOptions> = {}) => {
+  const sockets: FakeSocket[] = [];
+  const states: ConnectionState[] = [];
+  const client = new VideoGenSocket({
+    url: 'ws://test/ws',
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    baseReconnectDelay: 1000,
+    maxReconnectDelay: 8000,
+    heartbeatInterval: 30000,
+    heartbeatTimeout: 5000,
+    random: () => 0,
+    network: null,
+    ...options,
+  });
+  client.on('state', state => states.push(state));
+  const latest = () => sockets[sockets.length - 1];
+  return { client, sockets, states, latest };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('sends init on open and becomes established after the handshake', () => {
+  const { client, latest, states } = setup();
+  client.connect();
+  latest().open();
+
+  expect(latest().sent).toEqual([{ type: 'init', protocol_version: PROTOCOL_VERSION }]);
+  expect(client.state).toBe('handshaking');
+
+  latest().receive({ type: 'connection', status: 'established' });
+  expect(states).toEqual(['connecting', 'handshaking', 'established']);
+  expect(client.send({ type: 'cancel_processing', jobId: 'j1' })).toBe(true);
+  expect(latest().sent).toContainEqual({ action: 'cancel_processing', job_id: 'j1' });
+});
+
+test('does not send before the connection is established', () => {
+  const { client, latest } = setup();
+  client.connect();
+  latest().open();
+  expect(client.send({ type: 'cancel_processing', jobId: 'j1' })).toBe(false);
+});
+
+test('reconnects with exponential backoff after an unexpected close', () => {
+  const { client, sockets, latest, states } = setup();
+  client.connect();
+  latest().establish();
+
+  latest().serverClose();
+  expect(client.state).toBe('backoff');
+  jest.advanceTimersByTime(499);
+  expect(sockets).toHaveLength(1);
+  jest.advanceTimersByTime(1);
+  expect(sockets).toHaveLength(2);
+
+  latest().serverClose();
+  jest.advanceTimersByTime(999);
+  expect(sockets).toHaveLength(2);
+  jest.advanceTimersByTime(1);
+  expect(sockets).toHaveLength(3);
+
+  latest().establish();
+  expect(states[states.length - 1]).toBe('established');
+});
+
+test('gives up after the maximum number of attempts', () => {
+  const { client, sockets, latest } = setup({ maxReconnectAttempts: 2 });
+  client.connect();
+
+  latest().serverClose();
+  jest.runOnlyPendingTimers();
+  latest().serverClose();
+  jest.runOnlyPendingTimers();
+  latest().serverClose();
+
+  expect(client.state).toBe('failed');
+  jest.runOnlyPendingTimers();
+  expect(sockets).toHaveLength(3);
+
+  client.reconnect();
+  expect(sockets).toHaveLength(4);
+  expect(client.state).toBe('connecting');
+});
+
+test('resets the attempt counter once a connection is established again', () => {
+  const { client, latest } = setup({ maxReconnectAttempts: 1 });
+  client.connect();
+  latest().serverClose();
+  jest.runOnlyPendingTimers();
+  latest().establish();
+  latest().serverClose();
+  expect(client.state).toBe('backoff');
+});
+
+test('treats a server rejection as final', () => {
+  const { client, sockets, latest } = setup();
+  client.connect();
+  latest().open();
+  latest().receive({ type: 'error', message: 'Another client is currently connected' });
+
+  expect(client.state).toBe('rejected');
+  jest.runOnlyPendingTimers();
+  expect(sockets).toHaveLength(1);
+});
+
+test('treats a policy close code as a rejection', () => {
+  const { client, sockets, latest } = setup();
+  client.connect();
+  latest().open();
+  latest().serverClose(1008, 'Only one client allowed');
+
+  expect(client.state).toBe('rejected');
+  jest.runOnlyPendingTimers();
+  expect(sockets).toHaveLength(1);
+});
+
+test('sends the access token in the init message', async () => {
+  const { client, latest } = setup({ getToken: () => Promise.resolve('t1') });
+  client.connect();
+  latest().open();
+  expect(latest().sent).toEqual([]);
+
+  await Promise.resolve();
+  expect(latest().sent).toEqual([{ type: 'init', protocol_version: PROTOCOL_VERSION, token: 't1' }]);
+});
+
+test('stops reconnecting once the server says the token is no good', () => {
+  const { client, sockets, latest } = setup();
+  client.connect();
+  latest().establish();
+  latest().receive({ type: 'unauthorized', message: 'Token expired' });
+
+  expect(client.state).toBe('unauthorized');
+  jest.runOnlyPendingTimers();
+  expect(sockets).toHaveLength(1);
+
+  client.reconnect();
+  expect(sockets).toHaveLength(2);
+});
+
+test('treats the unauthorized close code like an unauthorized frame', () => {
+  const { client, sockets, latest } = setup();
+  client.connect();
+  latest().open();
+  latest().serverClose(UNAUTHORIZED_CLOSE_CODE, 'Invalid token');
+
+  expect(client.state).toBe('unauthorized');
+  jest.runOnlyPendingTimers();
+  expect(sockets).toHaveLength(1);
+});
+
+const createNetwork = (onLine = true) => {
+  const listeners: Record<string, Array<() => void>> = { online: [], offline: [] };
+  return {
+    onLine,
+    addEventListener: (type: 'online' | 'offline', listener: () => void) => listeners[type].push(listener),
+    removeEventListener: (type: 'online' | 'offline', listener: () => void) => {
+      listeners[type] = listeners[type].filter(candidate => candidate !== listener);
+    },
+    go(onLine: boolean) {
+      this.onLine = onLine;
+      listeners[onLine ? 'online' : 'offline'].forEach(listener => listener());
+    },
+  };
+};
+
+test('waits for the network instead of the backoff timer', () => {
+  const network = createNetwork();
+  const { client, sockets, latest } = setup({ network });
+  client.connect();
+  latest().establish();
+
+  network.go(false);
+  expect(client.state).toBe('offline');
+  expect(sockets[0].closed).toBe(true);
+  jest.runOnlyPendingTimers();
+  expect(sockets).toHaveLength(1);
+
+  network.go(true);
+  expect(sockets).toHaveLength(2);
+  expect(client.state).toBe('connecting');
+});
+
+test('does not open a socket while offline', () => {
+  const network = createNetwork(false);
+  const { client, sockets } = setup({ network });
+  client.connect();
+
+  expect(client.state).toBe('offline');
+  expect(sockets).toHaveLength(0);
+
+  client.disconnect();
+  network.go(true);
+  expect(sockets).toHaveLength(0);
+});
+
+test('drops the socket when a ping goes unanswered', () => {
+  const { client, sockets, latest } = setup();
+  client.connect();
+  latest().establish();
+
+  jest.advanceTimersByTime(30000);
+  expect(latest().sent).toContainEqual({ type: 'ping' });
+
+  jest.advanceTimersByTime(5000);
+  expect(sockets[0].closed).toBe(true);
+  expect(client.state).toBe('backoff');
+});
+
+test('keeps the socket when the pong arrives in time', () => {
+  const { client, latest } = setup();
+  client.connect();
+  latest().establish();
+
+  jest.advanceTimersByTime(30000);
+  latest().receive({ type: 'pong' });
+  jest.advanceTimersByTime(5000);
+  expect(client.state).toBe('established');
+});
+
+test('forwards application messages but swallows handshake and pong frames', () => {
+  const { client, latest } = setup();
+  const messages: any[] = [];
+  client.on('message', data => messages.push(data));
+  client.connect();
+  latest().establish();
+  latest().receive({ type: 'pong' });
+  latest().receive({ type: 'progress', job_id: 'j1', value: 10 });
+
+  expect(messages).toEqual([{ type: 'progress', job_id: 'j1', value: 10 }]);
+});
+
+test('drops malformed frames into the diagnostics log', () => {
+  const { client, latest } = setup();
+  const messages: any[] = [];
+  client.on('message', data => messages.push(data));
+  client.connect();
+  latest().establish();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  latest().receive({ type: 'progress', value: 10 });
+
+  expect(messages).toEqual([]);
+  expect(getDiagnostics().map(entry => entry.message)).toContain(
+    'Rejected inbound frame: progress frame without a job_id'
+  );
+});
+
+test('does not reconnect after an explicit disconnect', () => {
+  const { client, sockets, latest } = setup();
+  client.connect();
+  latest().establish();
+  client.disconnect();
+
+  expect(client.state).toBe('closed');
+  jest.runOnlyPendingTimers();
+  expect(sockets).toHaveLength(1);
+});
+
+test('computeBackoffDelay caps the delay and applies jitter', () => {
+  expect(computeBackoffDelay(0, 1000, 8000, () => 0)).toBe(500);
+  expect(computeBackoffDelay(0, 1000, 8000, () => 1)).toBe(1000);
+  expect(computeBackoffDelay(10, 1000, 8000, () => 1)).toBe(8000);
+});
@@ -0,0 +1,472 @@
+import { Emitter } from './emitter';
+import { createLogger } from './logger';
+import { TransportKind } from '../config';
+import { InboundMessage, OutboundMessage, decodeInbound, encodeOutbound } from './protocol';
+
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'handshaking'
+  | 'established'
+  | 'backoff'
+  | 'failed'
+  | 'rejected'
+  | 'unauthorized'
+  | 'offline'
+  | 'closed';
+
+export interface StateDetail {
+  attempt: number;
+  maxAttempts: number;
+  delay?: number;
+  code?: number;
+  reason?: string;
+  // Which transport reported the state, once more than one is in play.
+  transport?: TransportKind;
+}
+
+// The subset of the browser WebSocket the client relies on, so tests can
+// hand in a fake socket instead of opening a real connection.
+export interface SocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+}
+
+export type SocketFactory = (url: string) => SocketLike;
+
+// navigator.onLine plus the window events that report changes to it.
+export interface NetworkLike {
+  readonly onLine: boolean;
+  addEventListener(type: 'online' | 'offline', listener: () => void): void;
+  removeEventListener(type: 'online' | 'offline', listener: () => void): void;
+}
+
+const browserNetwork: NetworkLike | null =
+  typeof window === 'undefined'
+    ? null
+    : {
+        get onLine() {
+          return navigator.onLine;
+        },
+        addEventListener: (type, listener) => window.addEventListener(type, listener),
+        removeEventListener: (type, listener) => window.removeEventListener(type, listener),
+      };
+
+export interface VideoGenSocketOptions {
+  url: string;
+  createSocket?: SocketFactory;
+  maxReconnectAttempts?: number;
+  baseReconnectDelay?: number;
+  maxReconnectDelay?: number;
+  handshakeTimeout?: number;
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+  random?: () => number;
+  // Supplies the credential sent with init. May refresh it first; a
+  // rejected promise counts as the server refusing the credential.
+  getToken?: () => Promise<string | null>;
+  // Null ignores connectivity changes and relies on the reconnect timers.
+  network?: NetworkLike | null;
+}
+
+export type VideoGenSocketEvents = {
+  state: (state: ConnectionState, detail: StateDetail) => void;
+  message: (message: InboundMessage) => void;
+  error: (error: Event | Error) => void;
+};
+
+const SOCKET_OPEN = 1;
+
+// Close codes the server uses to refuse a client outright (policy violation
+// and the application range). Reconnecting after these only gets us kicked again.
+const isRejectionCode = (code: number) => code === 1008 || (code >= 4000 && code < 5000);
+
+// The server closes with this when the credential is missing or expired.
+export const UNAUTHORIZED_CLOSE_CODE = 4001;
+
+// Synthetic close codes for drops the client detects itself.
+export const HANDSHAKE_TIMEOUT_CODE = 4998;
+export const HEARTBEAT_TIMEOUT_CODE = 4999;
+
+export const computeBackoffDelay = (
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random
+) => {
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  // Equal jitter: never less than half the exponential delay, so clients
+  // dropped together spread out without reconnecting immediately.
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+};
+
+const protocolLog = createLogger('protocol');
+const log = createLogger('ws');
+
+// Decodes a frame from any transport; malformed ones go to the diagnostics
+// log instead of the app.
+export function decodeFrame(raw: string): InboundMessage | null {
+  const result = decodeInbound(raw);
+  if (!result.ok) {
+    protocolLog.warn(`Rejected inbound frame: ${result.error}`, result.raw);
+    return null;
+  }
+  return result.message;
+}
+
+export class VideoGenSocket extends Emitter<VideoGenSocketEvents> {
+  private readonly options: Required<Omit<VideoGenSocketOptions, 'getToken'>> & Pick<VideoGenSocketOptions, 'getToken'>;
+  private socket: SocketLike | null = null;
+  private currentState: ConnectionState = 'idle';
+  private attempts = 0;
+  private explicitlyClosed = false;
+  private rejectionReason: string | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchingNetwork = false;
+
+  constructor(options: VideoGenSocketOptions) {
+    super();
+    this.options = {
+      createSocket: url => new WebSocket(url),
+      maxReconnectAttempts: 5,
+      baseReconnectDelay: 1000,
+      maxReconnectDelay: 30000,
+      handshakeTimeout: 10000,
+      heartbeatInterval: 30000,
+      heartbeatTimeout: 10000,
+      random: Math.random,
+      network: browserNetwork,
+      ...options,
+    };
+  }
+
+  get state() {
+    return this.currentState;
+  }
+
+  get isEstablished() {
+    return this.currentState === 'established';
+  }
+
+  connect() {
+    if (this.socket || this.currentState === 'backoff') {
+      return;
+    }
+    this.explicitlyClosed = false;
+    this.attempts = 0;
+    this.watchNetwork();
+    this.openWhenOnline();
+  }
+
+  // Manual retry after the client gave up or was rejected.
+  reconnect() {
+    this.clearTimers();
+    this.detachSocket();
+    this.explicitlyClosed = false;
+    this.attempts = 0;
+    this.watchNetwork();
+    this.openWhenOnline();
+  }
+
+  disconnect() {
+    this.explicitlyClosed = true;
+    this.unwatchNetwork();
+    this.clearTimers();
+    this.detachSocket();
+    this.setState('closed');
+  }
+
+  dispose() {
+    this.disconnect();
+    this.removeAllListeners();
+  }
+
+  send(message: OutboundMessage): boolean {
+    if (!this.socket || !this.isEstablished || this.socket.readyState !== SOCKET_OPEN) {
+      return false;
+    }
+    this.socket.send(encodeOutbound(message));
+    log.frame('out', message);
+    return true;
+  }
+
+  // For frames sent outside send(), which refuses them before the handshake.
+  private sendRaw(socket: SocketLike, message: OutboundMessage) {
+    socket.send(encodeOutbound(message));
+    log.frame('out', message);
+  }
+
+  private setState(state: ConnectionState, detail: Partial<StateDetail> = {}) {
+    this.currentState = state;
+    this.emit('state', state, {
+      attempt: this.attempts,
+      maxAttempts: this.options.maxReconnectAttempts,
+      ...detail,
+    });
+  }
+
+  private openWhenOnline() {
+    if (this.options.network && !this.options.network.onLine) {
+      this.setState('offline');
+      return;
+    }
+    this.openSocket();
+  }
+
+  private watchNetwork() {
+    const { network } = this.options;
+    if (network && !this.watchingNetwork) {
+      network.addEventListener('online', this.handleOnline);
+      network.addEventListener('offline', this.handleOffline);
+      this.watchingNetwork = true;
+    }
+  }
+
+  private unwatchNetwork() {
+    const { network } = this.options;
+    if (network && this.watchingNetwork) {
+      network.removeEventListener('online', this.handleOnline);
+      network.removeEventListener('offline', this.handleOffline);
+      this.watchingNetwork = false;
+    }
+  }
+
+  // Coming back online is worth a fresh attempt right away instead of
+  // waiting out a backoff delay, or staying given up.
+  private handleOnline = () => {
+    if (this.currentState === 'offline' || this.currentState === 'backoff' || this.currentState === 'failed') {
+      this.clearTimers();
+      this.attempts = 0;
+      this.openSocket();
+    }
+  };
+
+  // The socket may take a heartbeat interval to notice the network is gone;
+  // the browser already knows.
+  private handleOffline = () => {
+    if (this.explicitlyClosed || this.currentState === 'rejected' || this.currentState === 'unauthorized') {
+      return;
+    }
+    this.clearTimers();
+    this.detachSocket();
+    this.setState('offline');
+  };
+
+  private openSocket() {
+    this.rejectionReason = null;
+    this.setState('connecting');
+
+    const socket = this.options.createSocket(this.options.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.setState('handshaking');
+      this.handshakeTimer = setTimeout(() => {
+        this.dropSocket(HANDSHAKE_TIMEOUT_CODE, 'Handshake timed out');
+      }, this.options.handshakeTimeout);
+
+      const { getToken } = this.options;
+      if (!getToken) {
+        this.sendRaw(socket, { type: 'init' });
+        return;
+      }
+      getToken().then(
+        token => {
+          if (this.socket === socket && socket.readyState === SOCKET_OPEN) {
+            this.sendRaw(socket, { type: 'init', token: token ?? undefined });
+          }
+        },
+        error => {
+          if (this.socket === socket) {
+            this.unauthorized(error instanceof Error ? error.message : 'Not signed in');
+          }
+        }
+      );
+    };
+
+    socket.onmessage = event => this.handleMessage(event);
+
+    socket.onerror = event => {
+      this.emit('error', event);
+    };
+
+    socket.onclose = event => {
+      this.handleClose(event.code, event.reason);
+    };
+  }
+
+  private handleMessage(event: MessageEvent) {
+    const data = decodeFrame(String(event.data));
+    if (!data) {
+      return;
+    }
+    log.frame('in', data);
+
+    // Any frame proves the connection is alive, not only pongs.
+    this.clearPongTimer();
+
+    if (data.type === 'connection' && data.status === 'established') {
+      this.clearHandshakeTimer();
+      this.attempts = 0;
+      this.setState('established');
+      this.startHeartbeat();
+      return;
+    }
+
+    if (data.type === 'pong') {
+      return;
+    }
+
+    if (data.type === 'unauthorized') {
+      this.unauthorized(data.message);
+      return;
+    }
+
+    if (data.type === 'error' && this.currentState === 'handshaking') {
+      // The server answers init with an error when it refuses this client,
+      // e.g. because another client already holds the connection.
+      this.rejectionReason = data.message;
+      log.warn(`Rejected by the server: ${data.message}`);
+      this.clearTimers();
+      this.detachSocket();
+      this.setState('rejected', { reason: data.message });
+      return;
+    }
+
+    this.emit('message', data);
+  }
+
+  private handleClose(code: number, reason: string) {
+    this.clearTimers();
+    this.socket = null;
+    log.info(`Closed with code ${code}${reason ? `: ${reason}` : ''}`);
+
+    if (this.explicitlyClosed) {
+      this.setState('closed', { code, reason });
+      return;
+    }
+
+    if (code === UNAUTHORIZED_CLOSE_CODE) {
+      this.setState('unauthorized', { code, reason: reason || undefined });
+      return;
+    }
+
+    if (isRejectionCode(code) && code !== HANDSHAKE_TIMEOUT_CODE && code !== HEARTBEAT_TIMEOUT_CODE) {
+      this.setState('rejected', { code, reason: reason || this.rejectionReason || undefined });
+      return;
+    }
+
+    if (this.options.network && !this.options.network.onLine) {
+      this.setState('offline', { code, reason });
+      return;
+    }
+
+    if (this.attempts >= this.options.maxReconnectAttempts) {
+      log.error(`Giving up after ${this.attempts} reconnect attempts`);
+      this.setState('failed', { code, reason });
+      return;
+    }
+
+    const delay = computeBackoffDelay(
+      this.attempts,
+      this.options.baseReconnectDelay,
+      this.options.maxReconnectDelay,
+      this.options.random
+    );
+    this.attempts++;
+    log.warn(`Reconnecting in ${delay} ms (attempt ${this.attempts}/${this.options.maxReconnectAttempts})`);
+    this.setState('backoff', { code, reason, delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  // Retrying with the same credential cannot succeed, so the client stops
+  // until it is told to reconnect with a fresh one.
+  private unauthorized(reason?: string) {
+    log.warn(`Not authorized${reason ? `: ${reason}` : ''}`);
+    this.clearTimers();
+    this.detachSocket();
+    this.setState('unauthorized', { reason });
+  }
+
+  // Tears down a socket we consider dead without waiting for the browser to
+  // finish the closing handshake, then takes the regular close path.
+  private dropSocket(code: number, reason: string) {
+    this.detachSocket();
+    this.handleClose(code, reason);
+  }
+
+  private detachSocket() {
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket) {
+      return;
+    }
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch {
+      // Closing a socket that never opened can throw in some browsers.
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+        return;
+      }
+      this.sendRaw(this.socket, { type: 'ping' });
+      if (!this.pongTimer) {
+        this.pongTimer = setTimeout(() => {
+          this.pongTimer = null;
+          this.dropSocket(HEARTBEAT_TIMEOUT_CODE, 'Heartbeat timed out');
+        }, this.options.heartbeatTimeout);
+      }
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearPongTimer();
+  }
+
+  private clearPongTimer() {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  private clearHandshakeTimer() {
+    if (this.handshakeTimer) {
+      clearTimeout(this.handshakeTimer);
+      this.handshakeTimer = null;
+    }
+  }
+
+  private clearTimers() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearHandshakeTimer();
+    this.stopHeartbeat();
+  }
+}
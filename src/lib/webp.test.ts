@@ -0,0 +1,46 @@
+import { assembleAnimatedWebp } from './webp';
+
+const bytes = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const u32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+
+// A minimal still: RIFF header, a VP8X chunk to be dropped and an odd-sized VP8L chunk.
+const still = (payload: number[]) =>
+  Uint8Array.from([
+    ...bytes('RIFF'), ...u32(0), ...bytes('WEBP'),
+    ...bytes('VP8X'), ...u32(10), ...new Array(10).fill(0),
+    ...bytes('VP8L'), ...u32(payload.length), ...payload, ...(payload.length % 2 ? [0] : []),
+  ]);
+
+const readChunks = (data: Uint8Array, from: number, to: number) => {
+  const view = new DataView(data.buffer, data.byteOffset);
+  const chunks: { id: string; offset: number; size: number }[] = [];
+  for (let offset = from; offset < to; ) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id: String.fromCharCode(...Array.from(data.slice(offset, offset + 4))), offset, size });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+test('wraps still frames in ANMF chunks of an animated container', () => {
+  const webp = assembleAnimatedWebp(320, 180, [
+    { data: still([1, 2, 3]), duration: 100 },
+    { data: still([4, 5]), duration: 250 },
+  ]);
+  const view = new DataView(webp.buffer);
+
+  expect(String.fromCharCode(...Array.from(webp.slice(0, 4)))).toBe('RIFF');
+  expect(view.getUint32(4, true)).toBe(webp.length - 8);
+
+  const chunks = readChunks(webp, 12, webp.length);
+  expect(chunks.map(chunk => chunk.id)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF']);
+  expect(webp[chunks[0].offset + 8] & 0x02).toBe(0x02);
+
+  const second = chunks[3].offset + 8;
+  expect(webp[second + 12] | (webp[second + 13] << 8)).toBe(250);
+  expect(readChunks(webp, second + 16, second + chunks[3].size).map(chunk => chunk.id)).toEqual(['VP8L']);
+});
+
+test('rejects frames that are not WebP', () => {
+  expect(() => assembleAnimatedWebp(1, 1, [{ data: Uint8Array.from(bytes('not a webp')), duration: 10 }])).toThrow('not a WebP');
+});
@@ -0,0 +1,67 @@
+import { ByteWriter } from './bytes';
+
+export interface WebpFrame {
+  // A complete still WebP file, e.g. from canvas.toBlob(..., 'image/webp').
+  data: Uint8Array;
+  // Display time in milliseconds.
+  duration: number;
+}
+
+const fourcc = (data: Uint8Array, offset: number) => String.fromCharCode(...Array.from(data.subarray(offset, offset + 4)));
+
+// The image chunks of a still WebP (ALPH, VP8, VP8L), headers and padding
+// included, which is exactly what an animation frame carries.
+function imageChunks(still: Uint8Array): Uint8Array[] {
+  if (still.length < 12 || fourcc(still, 0) !== 'RIFF' || fourcc(still, 8) !== 'WEBP') {
+    throw new Error('Frame is not a WebP image');
+  }
+  const view = new DataView(still.buffer, still.byteOffset, still.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= still.length) {
+    const id = fourcc(still, offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (id === 'ALPH' || id === 'VP8 ' || id === 'VP8L') {
+      chunks.push(still.subarray(offset, Math.min(end, still.length)));
+    }
+    offset = end;
+  }
+  if (chunks.length === 0) {
+    throw new Error('WebP frame has no image data');
+  }
+  return chunks;
+}
+
+const chunk = (out: ByteWriter, id: string, payload: Uint8Array) => {
+  out.ascii(id).u32(payload.length).bytes(payload);
+  if (payload.length % 2) {
+    out.byte(0);
+  }
+};
+
+// Assembles still WebP frames into one looping animated WebP.
+export function assembleAnimatedWebp(width: number, height: number, frames: WebpFrame[]): Uint8Array {
+  const body = new ByteWriter();
+
+  const vp8x = new ByteWriter();
+  // Animation and alpha flags; the canvas size is stored minus one.
+  vp8x.byte(0x12).u24(0).u24(width - 1).u24(height - 1);
+  chunk(body, 'VP8X', vp8x.toUint8Array());
+
+  const anim = new ByteWriter();
+  anim.u32(0).u16(0);
+  chunk(body, 'ANIM', anim.toUint8Array());
+
+  frames.forEach(frame => {
+    const anmf = new ByteWriter();
+    // Offset 0,0, full canvas, no blending with the previous frame.
+    anmf.u24(0).u24(0).u24(width - 1).u24(height - 1).u24(Math.round(frame.duration)).byte(0x02);
+    imageChunks(frame.data).forEach(data => anmf.bytes(data));
+    chunk(body, 'ANMF', anmf.toUint8Array());
+  });
+
+  const out = new ByteWriter();
+  out.ascii('RIFF').u32(4 + body.length).ascii('WEBP').bytes(body.toUint8Array());
+  return out.toUint8Array();
+}
@@ -0,0 +1,34 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { crc32, createZip } from './zip';
+
+// jsdom does not provide these; browsers do.
+Object.assign(global, { TextDecoder, TextEncoder });
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+test('computes the standard CRC-32', () => {
+  expect(crc32(text('hello'))).toBe(0x3610a686);
+  expect(crc32(new Uint8Array())).toBe(0);
+});
+
+test('writes stored entries with a central directory pointing back at them', () => {
+  const zip = createZip([
+    { name: 'a.mp4', data: text('first'), modified: new Date(2024, 0, 2, 3, 4, 6) },
+    { name: 'b.mp4', data: text('second!') },
+  ]);
+  const view = new DataView(zip.buffer);
+
+  expect(view.getUint32(0, true)).toBe(0x04034b50);
+  expect(view.getUint32(14, true)).toBe(crc32(text('first')));
+  expect(new TextDecoder().decode(zip.slice(30, 35))).toBe('a.mp4');
+  expect(new TextDecoder().decode(zip.slice(35, 40))).toBe('first');
+
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  expect(view.getUint16(end + 10, true)).toBe(2);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  // Second central record's local header offset.
+  const second = centralOffset + 46 + 'a.mp4'.length;
+  expect(view.getUint32(second + 42, true)).toBe(40);
+});
@@ -0,0 +1,65 @@
+import { ByteWriter } from './bytes';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const dosTime = (date: Date) => (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+const dosDate = (date: Date) => ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+// UTF-8 names, flagged as such in the general purpose bits.
+const UTF8_FLAG = 0x0800;
+
+// Writes an uncompressed ("stored") ZIP archive. Videos are already
+// compressed, so deflating them again would only cost time.
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const out = new ByteWriter();
+  const central = new ByteWriter();
+  const encoder = new TextEncoder();
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const modified = entry.modified || new Date();
+    const crc = crc32(entry.data);
+    const offset = out.length;
+
+    out.u32(0x04034b50).u16(20).u16(UTF8_FLAG).u16(0);
+    out.u16(dosTime(modified)).u16(dosDate(modified));
+    out.u32(crc).u32(entry.data.length).u32(entry.data.length);
+    out.u16(name.length).u16(0).bytes(name).bytes(entry.data);
+
+    central.u32(0x02014b50).u16(20).u16(20).u16(UTF8_FLAG).u16(0);
+    central.u16(dosTime(modified)).u16(dosDate(modified));
+    central.u32(crc).u32(entry.data.length).u32(entry.data.length);
+    central.u16(name.length).u16(0).u16(0).u16(0).u16(0).u32(0).u32(offset).bytes(name);
+  });
+
+  const centralOffset = out.length;
+  const centralSize = central.length;
+  out.bytes(central.toUint8Array());
+  out.u32(0x06054b50).u16(0).u16(0).u16(entries.length).u16(entries.length);
+  out.u32(centralSize).u32(centralOffset).u16(0);
+  return out.toUint8Array();
+}